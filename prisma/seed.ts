@@ -1,16 +1,141 @@
 import { PrismaClient } from "@prisma/client";
+import { PERMISSIONS } from "../src/utils/permissionUtils";
+import { DEFAULT_RESERVED_USERNAMES } from "../src/utils/usernameUtils";
 const prisma = new PrismaClient();
 
+const {
+  CONTENT_FILTER_READ,
+  CONTENT_FILTER_WRITE,
+  USERS_READ,
+  USERS_CHANGE_ROLE,
+  USERS_LOGOUT,
+  USERS_SUSPEND,
+  USERS_RESET_PROFILE,
+  AGE_VERIFICATION_REVIEW,
+  BIRTHDAY_CHANGE_REVIEW,
+  USERNAMES_MANAGE,
+  WAITLIST_MANAGE,
+  ROLES_MANAGE,
+  PERMISSIONS_MANAGE,
+  AUDIT_LOG_READ,
+  SERIES_PUBLISH,
+  SERIES_DELETE,
+} = PERMISSIONS;
+
+const EDITOR_PERMISSIONS = [SERIES_PUBLISH, SERIES_DELETE];
+const MODERATOR_PERMISSIONS = [
+  ...EDITOR_PERMISSIONS,
+  USERS_READ,
+  USERS_LOGOUT,
+  USERS_SUSPEND,
+  USERS_RESET_PROFILE,
+  CONTENT_FILTER_READ,
+  AGE_VERIFICATION_REVIEW,
+  BIRTHDAY_CHANGE_REVIEW,
+];
+const ADMIN_PERMISSIONS = [
+  ...MODERATOR_PERMISSIONS,
+  CONTENT_FILTER_WRITE,
+  USERS_CHANGE_ROLE,
+  ROLES_MANAGE,
+  PERMISSIONS_MANAGE,
+  USERNAMES_MANAGE,
+  WAITLIST_MANAGE,
+  AUDIT_LOG_READ,
+];
+
+// Default grants. Re-seeding adds any an existing role is missing, such as
+// permissions added to the catalogue since it was first seeded
+const ROLE_PERMISSIONS: Record<string, { key: string }[]> = {
+  admin: ADMIN_PERMISSIONS,
+  moderator: MODERATOR_PERMISSIONS,
+  editor: EDITOR_PERMISSIONS,
+};
+
+// Role names are compared case-insensitively, as in src/utils/roleUtils.ts
+const findRole = (name: string) =>
+  prisma.role.findFirst({ where: { name: { equals: name, mode: "insensitive" } } });
+
 async function main() {
+  // Lower number = higher priority; names must cover ROLES in src/utils/roleUtils.ts
   await prisma.role.createMany({
     data: [
-      { id: 1, name: "Admin", priority: 10 },
-      { id: 2, name: "Moderator", priority: 50 },
-      { id: 3, name: "Premium", priority: 100 },
-      { id: 4, name: "User", priority: 150 },
+      { id: 6, name: "super_admin", priority: 0 },
+      { id: 1, name: "admin", priority: 10 },
+      { id: 2, name: "moderator", priority: 50 },
+      { id: 5, name: "editor", priority: 75 },
+      { id: 3, name: "premium", priority: 100 },
+      { id: 4, name: "user", priority: 150, isDefault: true },
     ],
     skipDuplicates: true,
   });
+
+  // Databases seeded before role names were lowercase ("Admin", "User", ...)
+  const roles = await prisma.role.findMany({ select: { id: true, name: true } });
+  const taken = new Set(roles.map(({ name }) => name));
+  for (const role of roles) {
+    const name = role.name.toLowerCase();
+    if (taken.has(name)) continue;
+    await prisma.role.update({ where: { id: role.id }, data: { name } });
+    taken.add(name);
+  }
+
+  // Databases seeded before default roles existed
+  const hasDefault = await prisma.role.count({ where: { isDefault: true } });
+  if (!hasDefault) {
+    await prisma.role.update({ where: { id: 4 }, data: { isDefault: true } });
+  }
+
+  await prisma.permission.createMany({
+    data: Object.values(PERMISSIONS),
+    skipDuplicates: true,
+  });
+
+  for (const [roleName, permissions] of Object.entries(ROLE_PERMISSIONS)) {
+    const role = await findRole(roleName);
+    if (!role) continue;
+
+    const rows = await prisma.permission.findMany({
+      where: { key: { in: permissions.map(({ key }) => key) } },
+    });
+    await prisma.rolePermission.createMany({
+      data: rows.map((permission) => ({
+        roleId: role.id,
+        permissionId: permission.id,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  // super_admin always holds the whole catalogue, so new permissions can be handed out
+  const superAdmin = await findRole("super_admin");
+  if (superAdmin) {
+    const all = await prisma.permission.findMany({ select: { id: true } });
+    await prisma.rolePermission.createMany({
+      data: all.map((permission) => ({
+        roleId: superAdmin.id,
+        permissionId: permission.id,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  // Without a policy everyone is band 1; admins adjust it via the content filter API
+  await prisma.nSFWPolicy.upsert({
+    where: { id: 1 },
+    update: {},
+    create: { id: 1, band2Enabled: false, minimumAge: 18 },
+  });
+
+  await prisma.reservedUsername.createMany({
+    data: DEFAULT_RESERVED_USERNAMES.map((term) => ({ term, reason: "System name" })),
+    skipDuplicates: true,
+  });
+
+  // Explicit IDs don't advance the sequence; keep it ahead for roles created later
+  await prisma.$executeRawUnsafe(
+    `SELECT setval(pg_get_serial_sequence('manhco.roles', 'id'), (SELECT MAX(id) FROM manhco.roles))`
+  );
 }
 
 main().finally(() => prisma.$disconnect());
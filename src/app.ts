@@ -6,6 +6,10 @@ import cookieParser from "cookie-parser";
 import { validateCsrfToken } from "./middleware/csrfMiddleware";
 import errorMiddleware from "./middleware/error";
 import helmet from "helmet";
+import { TOKEN_EXPIRED_HEADER } from "./middleware/authMiddleware";
+import { assignRequestId, REQUEST_ID_HEADER } from "./middleware/requestIdMiddleware";
+import { parseTrustProxy } from "./utils/requestUtils";
+import { getStorageAdapter } from "./services/storageAdapters";
 
 export default class ServerConfig {
   constructor(app: Application) {
@@ -13,6 +17,9 @@ export default class ServerConfig {
   }
 
   private config(app: Application): void {
+    app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
+    app.use(assignRequestId);
+
     const corsOptions = {
       origin: this.getCorsOrigin(process.env.ENVIRONMENT),
       methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
@@ -20,8 +27,10 @@ export default class ServerConfig {
         "Content-Type", 
         "Authorization", 
         "X-Requested-With",
-        "X-CSRF-Token"
+        "X-CSRF-Token",
+        REQUEST_ID_HEADER
       ],
+      exposedHeaders: [TOKEN_EXPIRED_HEADER, REQUEST_ID_HEADER],
       credentials: true,
     };
     
@@ -60,6 +69,13 @@ export default class ServerConfig {
     }
 
     app.use(cors(corsOptions));
+
+    // Uploaded images, when stored on this server
+    const uploads = getStorageAdapter().serve?.();
+    if (uploads) {
+      app.use(uploads.path, uploads.handler);
+    }
+
     app.use(express.json());
     app.use(express.urlencoded({ extended: true }));
     app.use(cookieParser(process.env.COOKIE_SECRET || 'dev_cookie_secret'));
@@ -0,0 +1,155 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import {
+  cancelAccountDeletion,
+  getDeletionGraceDays,
+  requestAccountDeletion,
+} from "../services/accountDeletionService";
+import { buildDataExport, zipDataExport } from "../services/dataExportService";
+import {
+  dataExportQuerySchema,
+  requestDeletionSchema,
+} from "@schemas/accountSchema";
+
+/**
+ * Account Controller
+ *
+ * Lets the authenticated user download their data under `/me/export`, and
+ * delete their account under `/me/delete`. Deletion waits for a grace
+ * period and can be cancelled until then; see the account deletion
+ * service for what is deleted and what is anonymised.
+ */
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Downloads everything stored about the user
+ *
+ * Query parameters (optional):
+ * - format: json (default), or zip for one JSON file per section
+ */
+export const exportData = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = dataExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const data = await buildDataExport(userId);
+    const filename = `manhco-export-${data.exportedAt.toISOString().slice(0, 10)}`;
+
+    if (parsed.data.format === "zip") {
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.zip"`);
+      res.status(200).send(await zipDataExport(data));
+      return;
+    }
+
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+    res.status(200).json(data);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns whether the account is scheduled for deletion, and when
+ */
+export const getDeletionStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: getUserId(req) },
+      select: { deletionRequestedAt: true, deletionScheduledFor: true },
+    });
+    if (!user) {
+      throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+    }
+
+    res.status(200).json({
+      scheduled: user.deletionScheduledFor !== null,
+      requestedAt: user.deletionRequestedAt,
+      scheduledFor: user.deletionScheduledFor,
+      graceDays: getDeletionGraceDays(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Schedules the account for deletion after the grace period
+ *
+ * Signs out every other session.
+ *
+ * Body:
+ * - confirm: must be true
+ */
+export const requestDeletion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = requestDeletionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid deletion data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const scheduledFor = await requestAccountDeletion(userId, req.authSessionId);
+
+    res.status(202).json({
+      message: "Account scheduled for deletion",
+      scheduledFor,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancels a scheduled deletion
+ */
+export const cancelDeletion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await cancelAccountDeletion(getUserId(req));
+
+    res.status(200).json({
+      message: "Account deletion cancelled",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
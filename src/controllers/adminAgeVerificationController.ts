@@ -0,0 +1,234 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { getUserBand } from "@utils/contentFilter";
+import { describeAudit } from "@middleware/auditMiddleware";
+import {
+  applyDecision,
+  expireStaleRequests,
+} from "../services/ageVerificationService";
+import {
+  listVerificationsQuerySchema,
+  approveVerificationSchema,
+  rejectVerificationSchema,
+} from "@schemas/ageVerificationSchema";
+
+/**
+ * Admin Age Verification Controller
+ *
+ * The moderator review queue for age verification requests under
+ * `/admin/age-verification`. Approving a request verifies the user for
+ * band 2 NSFW access; rejected and expired requests leave them unverified
+ * and free to submit again.
+ */
+
+const requestUserSelect = {
+  id: true,
+  email: true,
+  username: true,
+  birthday: true,
+  country: true,
+  verifiedForNSFW: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Parses the `:id` route parameter into a request ID
+ */
+const parseRequestId = (req: Request): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "Request ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Lists verification requests, oldest first
+ *
+ * Query parameters (all optional):
+ * - page, limit: pagination (default 1, 20; limit max 100)
+ * - status: PENDING (default), APPROVED, REJECTED or EXPIRED
+ * - userId: only this user's requests
+ */
+export const listVerificationRequests = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = listVerificationsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit, status, userId } = parsed.data;
+
+    await expireStaleRequests();
+
+    const where: Prisma.AgeVerificationRequestWhereInput = { status, userId };
+    const [requests, total] = await prisma.$transaction([
+      prisma.ageVerificationRequest.findMany({
+        where,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { user: { select: requestUserSelect } },
+      }),
+      prisma.ageVerificationRequest.count({ where }),
+    ]);
+
+    res.status(200).json({
+      requests,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns a request with the user's current band
+ */
+export const getVerificationRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRequestId(req);
+    await expireStaleRequests();
+
+    const request = await prisma.ageVerificationRequest.findUnique({
+      where: { id },
+      include: {
+        user: true,
+        reviewedBy: { select: { id: true, email: true, username: true } },
+      },
+    });
+    if (!request) {
+      throw new AppError(
+        "Verification request not found",
+        404,
+        ErrorAppCode.VerificationRequestNotFound
+      );
+    }
+
+    const { user, ...rest } = request;
+    const band = await getUserBand(user);
+
+    res.status(200).json({
+      request: {
+        ...rest,
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username,
+          birthday: user.birthday,
+          country: user.country,
+          verifiedForNSFW: user.verifiedForNSFW,
+        },
+      },
+      band: band.band,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Approves a pending request and verifies the user
+ *
+ * Body (optional):
+ * - reason: note for the record
+ */
+export const approveVerificationRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRequestId(req);
+    const parsed = approveVerificationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid decision data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const request = await applyDecision(id, {
+      status: "APPROVED",
+      reason: parsed.data.reason,
+      reviewedById: req.user!.id,
+    });
+    describeAudit(req, {
+      action: "age_verification.approve",
+      targetType: "user",
+      targetId: request.userId,
+      before: { requestId: id, status: "PENDING" },
+      after: { requestId: id, status: request.status, verifiedForNSFW: true },
+    });
+
+    res.status(200).json({ request });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rejects a pending request
+ *
+ * Body:
+ * - reason: shown to the user
+ */
+export const rejectVerificationRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRequestId(req);
+    const parsed = rejectVerificationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid decision data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const request = await applyDecision(id, {
+      status: "REJECTED",
+      reason: parsed.data.reason,
+      reviewedById: req.user!.id,
+    });
+    describeAudit(req, {
+      action: "age_verification.reject",
+      targetType: "user",
+      targetId: request.userId,
+      before: { requestId: id, status: "PENDING" },
+      after: { requestId: id, status: request.status, reason: parsed.data.reason },
+    });
+
+    res.status(200).json({ request });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,223 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { describeAudit } from "@middleware/auditMiddleware";
+import { decideBirthdayChange } from "../services/birthdayService";
+import {
+  listBirthdayChangesQuerySchema,
+  approveBirthdayChangeSchema,
+  rejectBirthdayChangeSchema,
+} from "@schemas/birthdaySchema";
+
+/**
+ * Admin Birthday Change Controller
+ *
+ * The moderator review queue for birthday changes under
+ * `/admin/birthday-changes`. Approving a request sets the user's birthday
+ * and switches NSFW off if they are now too young for it.
+ */
+
+const requestUserSelect = {
+  id: true,
+  email: true,
+  username: true,
+  birthday: true,
+  country: true,
+  nsfwEnabled: true,
+  verifiedForNSFW: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Parses the `:id` route parameter into a request ID
+ */
+const parseRequestId = (req: Request): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "Request ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Lists birthday change requests, oldest first
+ *
+ * Query parameters (all optional):
+ * - page, limit: pagination (default 1, 20; limit max 100)
+ * - status: PENDING (default), APPROVED or REJECTED
+ * - userId: only this user's requests
+ */
+export const listBirthdayChanges = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = listBirthdayChangesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit, status, userId } = parsed.data;
+
+    const where: Prisma.BirthdayChangeRequestWhereInput = { status, userId };
+    const [requests, total] = await prisma.$transaction([
+      prisma.birthdayChangeRequest.findMany({
+        where,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { user: { select: requestUserSelect } },
+      }),
+      prisma.birthdayChangeRequest.count({ where }),
+    ]);
+
+    res.status(200).json({
+      requests,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns a request with the user's earlier birthday changes
+ */
+export const getBirthdayChange = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRequestId(req);
+    const request = await prisma.birthdayChangeRequest.findUnique({
+      where: { id },
+      include: {
+        user: { select: requestUserSelect },
+        reviewedBy: { select: { id: true, email: true, username: true } },
+      },
+    });
+    if (!request) {
+      throw new AppError(
+        "Birthday change request not found",
+        404,
+        ErrorAppCode.BirthdayChangeNotFound
+      );
+    }
+
+    // Repeated changes are a sign of age gaming
+    const history = await prisma.birthdayChangeRequest.findMany({
+      where: { userId: request.userId, id: { not: id } },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        status: true,
+        currentBirthday: true,
+        requestedBirthday: true,
+        createdAt: true,
+      },
+    });
+
+    res.status(200).json({ request, history });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Approves a pending request and applies the birthday
+ *
+ * Body (optional):
+ * - reason: note for the record
+ */
+export const approveBirthdayChange = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRequestId(req);
+    const parsed = approveBirthdayChangeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid decision data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const { request, nsfwDisabled } = await decideBirthdayChange(id, {
+      status: "APPROVED",
+      reason: parsed.data.reason,
+      reviewedById: req.user!.id,
+    });
+    describeAudit(req, {
+      action: "birthday_change.approve",
+      targetType: "user",
+      targetId: request.userId,
+      before: { requestId: id, birthday: request.currentBirthday },
+      after: { requestId: id, birthday: request.requestedBirthday, nsfwDisabled },
+    });
+
+    res.status(200).json({ request, nsfwDisabled });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rejects a pending request
+ *
+ * Body:
+ * - reason: shown to the user
+ */
+export const rejectBirthdayChange = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRequestId(req);
+    const parsed = rejectBirthdayChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid decision data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const { request } = await decideBirthdayChange(id, {
+      status: "REJECTED",
+      reason: parsed.data.reason,
+      reviewedById: req.user!.id,
+    });
+    describeAudit(req, {
+      action: "birthday_change.reject",
+      targetType: "user",
+      targetId: request.userId,
+      before: { requestId: id, status: "PENDING" },
+      after: { requestId: id, status: request.status, reason: parsed.data.reason },
+    });
+
+    res.status(200).json({ request });
+  } catch (error) {
+    next(error);
+  }
+};
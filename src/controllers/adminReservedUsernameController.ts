@@ -0,0 +1,253 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma, ReservedUsername, ReservedUsernameMatch } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { describeAudit } from "@middleware/auditMiddleware";
+import { invalidateReservedUsernames } from "../services/usernameService";
+import {
+  listReservedUsernamesQuerySchema,
+  createReservedUsernameSchema,
+  updateReservedUsernameSchema,
+} from "@schemas/reservedUsernameSchema";
+
+/**
+ * Admin Reserved Username Controller
+ *
+ * Manages the names nobody can register under `/admin/reserved-usernames`.
+ * An EXACT term reserves that username; a CONTAINS term is a blocked word
+ * that no username may contain.
+ *
+ * Reserving a name does not rename users who already have it; the number
+ * of such users is returned so they can be reset from the user admin.
+ */
+
+/**
+ * Parses the `:id` route parameter into a reserved username ID
+ */
+const parseReservedId = (req: Request): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "Reserved username ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+const findReserved = async (id: number): Promise<ReservedUsername> => {
+  const reserved = await prisma.reservedUsername.findUnique({ where: { id } });
+  if (!reserved) {
+    throw new AppError(
+      "Reserved username not found",
+      404,
+      ErrorAppCode.ReservedUsernameNotFound
+    );
+  }
+  return reserved;
+};
+
+/**
+ * Counts users whose current username matches a term
+ */
+const countMatchingUsers = (
+  term: string,
+  match: ReservedUsernameMatch
+): Promise<number> =>
+  prisma.user.count({
+    where: {
+      usernameKey:
+        match === ReservedUsernameMatch.EXACT ? term : { contains: term },
+    },
+  });
+
+/**
+ * Lists reserved usernames and blocked words alphabetically
+ *
+ * Query parameters (all optional):
+ * - page, limit: pagination (default 1, 50; limit max 100)
+ * - q: partial match on the term
+ * - match: EXACT or CONTAINS
+ */
+export const listReservedUsernames = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = listReservedUsernamesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit, q, match } = parsed.data;
+
+    const where: Prisma.ReservedUsernameWhereInput = {
+      term: q ? { contains: q.toLowerCase() } : undefined,
+      match,
+    };
+    const [reserved, total] = await prisma.$transaction([
+      prisma.reservedUsername.findMany({
+        where,
+        orderBy: { term: "asc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { createdBy: { select: { id: true, username: true } } },
+      }),
+      prisma.reservedUsername.count({ where }),
+    ]);
+
+    res.status(200).json({
+      reserved,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reserves a username or blocks a word
+ *
+ * Body:
+ * - term: lowercase letters, numbers and underscores
+ * - match (optional): EXACT (default) or CONTAINS
+ * - reason (optional)
+ */
+export const createReservedUsername = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = createReservedUsernameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid reserved username data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { term, match, reason } = parsed.data;
+
+    let reserved: ReservedUsername;
+    try {
+      reserved = await prisma.reservedUsername.create({
+        data: { term, match, reason: reason ?? null, createdById: req.user?.id },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new AppError(
+          "This term is already reserved",
+          409,
+          ErrorAppCode.ReservedUsernameConflict
+        );
+      }
+      throw error;
+    }
+    invalidateReservedUsernames();
+    describeAudit(req, {
+      action: "reserved_usernames.create",
+      targetType: "reserved_username",
+      targetId: reserved.id,
+      after: reserved,
+    });
+
+    res.status(201).json({
+      reserved,
+      matchingUsers: await countMatchingUsers(term, match),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Changes how a term matches, or its reason
+ *
+ * Body (at least one):
+ * - match: EXACT or CONTAINS
+ * - reason: text, or null to clear it
+ */
+export const updateReservedUsername = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseReservedId(req);
+    const parsed = updateReservedUsernameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid reserved username data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const existing = await findReserved(id);
+    const reserved = await prisma.reservedUsername.update({
+      where: { id },
+      data: parsed.data,
+    });
+    invalidateReservedUsernames();
+    describeAudit(req, {
+      action: "reserved_usernames.update",
+      targetType: "reserved_username",
+      targetId: id,
+      before: existing,
+      after: reserved,
+    });
+
+    res.status(200).json({
+      reserved,
+      matchingUsers: await countMatchingUsers(reserved.term, reserved.match),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Makes a term available again
+ */
+export const deleteReservedUsername = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseReservedId(req);
+    const existing = await findReserved(id);
+
+    await prisma.reservedUsername.delete({ where: { id } });
+    invalidateReservedUsernames();
+    describeAudit(req, {
+      action: "reserved_usernames.delete",
+      targetType: "reserved_username",
+      targetId: id,
+      before: existing,
+    });
+
+    res.status(200).json({
+      message: "Reserved username deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,396 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { isBuiltInRole, loadRoleHierarchy } from "@utils/roleUtils";
+import { createRoleSchema, updateRoleSchema } from "@schemas/roleSchema";
+import { setRolePermissionsSchema } from "@schemas/permissionSchema";
+import { describeAudit } from "@middleware/auditMiddleware";
+import {
+  assertCanDelegate,
+  invalidateRolePermissions,
+} from "../services/permissionService";
+
+/**
+ * Admin Role Controller
+ *
+ * Handles the role table under `/admin/roles`. Roles are the single source
+ * of truth for the hierarchy used by `requireRoles`; every change reloads
+ * the cached hierarchy.
+ *
+ * Admins can only create or change roles ranking strictly below their own,
+ * and roles referenced in code can be re-prioritised but not renamed or
+ * deleted. Exactly one role is always the default for new sign-ups.
+ *
+ * It also lists the permission catalogue and sets which permissions each
+ * role grants; admins can only hand out permissions they hold themselves.
+ */
+
+/**
+ * Parses the `:id` route parameter into a role ID
+ */
+const parseRoleId = (req: Request): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "Role ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Throws unless a priority ranks strictly below the actor's role
+ */
+const assertBelowActor = (req: Request, priority: number): void => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  if (priority <= req.user.role.priority) {
+    throw new AppError(
+      "Cannot manage a role equal to or higher than your own",
+      403,
+      ErrorAppCode.InsufficientPermissions
+    );
+  }
+};
+
+/**
+ * Throws if another role already uses the name or priority
+ */
+const assertNoConflict = async (
+  data: { name?: string; priority?: number },
+  excludeId?: number
+): Promise<void> => {
+  const conflicts: Prisma.RoleWhereInput[] = [];
+  if (data.name !== undefined) {
+    conflicts.push({ name: { equals: data.name, mode: "insensitive" } });
+  }
+  if (data.priority !== undefined) {
+    conflicts.push({ priority: data.priority });
+  }
+  if (conflicts.length === 0) return;
+
+  const existing = await prisma.role.findFirst({
+    where: { OR: conflicts, id: excludeId ? { not: excludeId } : undefined },
+  });
+  if (existing) {
+    throw new AppError(
+      "A role with this name or priority already exists",
+      409,
+      ErrorAppCode.RoleConflict,
+      { name: existing.name, priority: existing.priority }
+    );
+  }
+};
+
+/**
+ * Lists roles from highest to lowest rank, with their permissions and the
+ * number of users in each
+ */
+export const listRoles = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const roles = await prisma.role.findMany({
+      orderBy: { priority: "asc" },
+      include: {
+        permissions: { select: { permission: { select: { key: true } } } },
+        _count: { select: { users: true } },
+      },
+    });
+
+    res.status(200).json({
+      roles: roles.map(({ _count, permissions, ...role }) => ({
+        ...role,
+        builtIn: isBuiltInRole(role.name),
+        permissions: permissions.map((row) => row.permission.key).sort(),
+        userCount: _count.users,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Creates a role
+ */
+export const createRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = createRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid role data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { name, priority, isDefault } = parsed.data;
+
+    assertBelowActor(req, priority);
+    await assertNoConflict({ name, priority });
+
+    const role = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.role.updateMany({ data: { isDefault: false } });
+      }
+      return tx.role.create({
+        data: { name, priority, isDefault: isDefault ?? false },
+      });
+    });
+    await loadRoleHierarchy();
+    describeAudit(req, {
+      action: "roles.create",
+      targetType: "role",
+      targetId: role.id,
+      after: role,
+    });
+
+    res.status(201).json({ role });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Renames, re-prioritises or makes a role the default
+ */
+export const updateRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRoleId(req);
+    const parsed = updateRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid role data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { name, priority, isDefault } = parsed.data;
+
+    const existing = await prisma.role.findUnique({ where: { id } });
+    if (!existing) {
+      throw new AppError("Role not found", 404, ErrorAppCode.RoleNotFound);
+    }
+
+    assertBelowActor(req, existing.priority);
+    if (priority !== undefined) assertBelowActor(req, priority);
+
+    if (
+      name !== undefined &&
+      name !== existing.name.toLowerCase() &&
+      isBuiltInRole(existing.name)
+    ) {
+      throw new AppError(
+        "Roles referenced in code cannot be renamed",
+        400,
+        ErrorAppCode.BadInput
+      );
+    }
+
+    await assertNoConflict({ name, priority }, id);
+
+    const role = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.role.updateMany({
+          where: { id: { not: id } },
+          data: { isDefault: false },
+        });
+      }
+      return tx.role.update({
+        where: { id },
+        data: { name, priority, isDefault },
+      });
+    });
+    await loadRoleHierarchy();
+    describeAudit(req, {
+      action: "roles.update",
+      targetType: "role",
+      targetId: role.id,
+      before: existing,
+      after: role,
+    });
+
+    res.status(200).json({ role });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deletes a role that has no users, is not the default and is not
+ * referenced in code
+ */
+export const deleteRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRoleId(req);
+    const role = await prisma.role.findUnique({
+      where: { id },
+      include: { _count: { select: { users: true } } },
+    });
+    if (!role) {
+      throw new AppError("Role not found", 404, ErrorAppCode.RoleNotFound);
+    }
+
+    assertBelowActor(req, role.priority);
+
+    if (isBuiltInRole(role.name)) {
+      throw new AppError(
+        "Roles referenced in code cannot be deleted",
+        400,
+        ErrorAppCode.BadInput
+      );
+    }
+    if (role.isDefault) {
+      throw new AppError(
+        "The default role cannot be deleted",
+        400,
+        ErrorAppCode.BadInput
+      );
+    }
+    if (role._count.users > 0) {
+      throw new AppError(
+        "Role is still assigned to users",
+        409,
+        ErrorAppCode.RoleConflict,
+        { userCount: role._count.users }
+      );
+    }
+
+    await prisma.role.delete({ where: { id } });
+    await loadRoleHierarchy();
+    const { _count, ...deleted } = role;
+    describeAudit(req, {
+      action: "roles.delete",
+      targetType: "role",
+      targetId: id,
+      before: deleted,
+    });
+
+    res.status(200).json({
+      message: "Role deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists the permission catalogue with the roles granting each permission
+ */
+export const listPermissions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const permissions = await prisma.permission.findMany({
+      orderBy: { key: "asc" },
+      include: {
+        roles: { select: { role: { select: { id: true, name: true } } } },
+      },
+    });
+
+    res.status(200).json({
+      permissions: permissions.map(({ roles, ...permission }) => ({
+        ...permission,
+        roles: roles.map((row) => row.role),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replaces the permissions a role grants
+ *
+ * Body:
+ * - permissions: permission keys the role should grant
+ *
+ * The actor must hold every permission added or removed.
+ */
+export const setRolePermissions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseRoleId(req);
+    const parsed = setRolePermissionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid permission data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const role = await prisma.role.findUnique({
+      where: { id },
+      include: { permissions: { include: { permission: true } } },
+    });
+    if (!role) {
+      throw new AppError("Role not found", 404, ErrorAppCode.RoleNotFound);
+    }
+    assertBelowActor(req, role.priority);
+
+    const wanted = new Set(parsed.data.permissions);
+    const current = new Set(role.permissions.map((row) => row.permission.key));
+    const changed = [
+      ...[...wanted].filter((key) => !current.has(key)),
+      ...[...current].filter((key) => !wanted.has(key)),
+    ];
+    await assertCanDelegate(req.user!, changed);
+
+    const permissions = await prisma.permission.findMany({
+      where: { key: { in: [...wanted] } },
+      select: { id: true, key: true },
+    });
+
+    await prisma.$transaction([
+      prisma.rolePermission.deleteMany({ where: { roleId: id } }),
+      prisma.rolePermission.createMany({
+        data: permissions.map((permission) => ({
+          roleId: id,
+          permissionId: permission.id,
+        })),
+      }),
+    ]);
+    invalidateRolePermissions(id);
+    describeAudit(req, {
+      action: "roles.permissions.set",
+      targetType: "role",
+      targetId: id,
+      before: { permissions: [...current].sort() },
+      after: { permissions: permissions.map((permission) => permission.key).sort() },
+    });
+
+    res.status(200).json({
+      role: { id: role.id, name: role.name },
+      permissions: permissions.map((permission) => permission.key).sort(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
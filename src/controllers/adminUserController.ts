@@ -0,0 +1,653 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { getUserBand } from "@utils/contentFilter";
+import { describeAudit } from "@middleware/auditMiddleware";
+import { isUserSuspended } from "@utils/userUtils";
+import * as tokenService from "../services/tokenService";
+import {
+  invalidateAuthUser,
+  revokeUserAccessTokens,
+} from "../services/authStateService";
+import {
+  assertCanDelegate,
+  getEffectivePermissions,
+  getRolePermissions,
+  invalidateUserPermissions,
+} from "../services/permissionService";
+import { deleteStoredImages } from "../services/imageService";
+import { notifySafely, notifyUser } from "../services/notificationService";
+import {
+  permissionKeySchema,
+  setUserPermissionSchema,
+} from "@schemas/permissionSchema";
+import {
+  listUsersQuerySchema,
+  changeRoleSchema,
+  suspendUserSchema,
+  resetProfileSchema,
+} from "@schemas/adminUserSchema";
+
+/**
+ * Admin User Controller
+ *
+ * Handles user management under `/admin/users`:
+ * - Paginated search and detail lookup
+ * - Role changes, forced logout, suspension and profile resets
+ * - Per-user permission grants and denials
+ *
+ * Actions only apply to users whose role ranks strictly below the actor's
+ * (lower `Role.priority` ranks higher), and never to the actor themselves.
+ * Every action that reduces access also revokes existing access tokens.
+ * Every change is recorded in the audit log.
+ */
+
+const suspensionFields = ({
+  suspendedAt,
+  suspendedUntil,
+  suspensionReason,
+}: {
+  suspendedAt: Date | null;
+  suspendedUntil: Date | null;
+  suspensionReason: string | null;
+}) => ({ suspendedAt, suspendedUntil, suspensionReason });
+
+const userSummarySelect = {
+  id: true,
+  email: true,
+  username: true,
+  firstName: true,
+  secondName: true,
+  googleId: true,
+  country: true,
+  role: { select: { id: true, name: true, priority: true } },
+  suspendedAt: true,
+  suspendedUntil: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Parses the `:id` route parameter into a user ID
+ */
+const parseUserId = (req: Request): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "User ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Parses the `:key` route parameter into a permission key
+ */
+const parsePermissionKey = (req: Request): string => {
+  const parsed = permissionKeySchema.safeParse(req.params.key);
+  if (!parsed.success) {
+    throw new AppError("Unknown permission", 400, ErrorAppCode.BadInput);
+  }
+  return parsed.data;
+};
+
+/**
+ * Finds the target user and checks the actor may manage them
+ */
+const getManageableUser = async (req: Request) => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+
+  const id = parseUserId(req);
+  if (id === req.user.id) {
+    throw new AppError(
+      "You cannot perform this action on yourself",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+
+  const target = await prisma.user.findUnique({
+    where: { id },
+    include: { role: true },
+  });
+  if (!target) {
+    throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+  }
+
+  if (target.role.priority <= req.user.role.priority) {
+    throw new AppError(
+      "Cannot manage a user with an equal or higher role",
+      403,
+      ErrorAppCode.InsufficientPermissions
+    );
+  }
+
+  return target;
+};
+
+/**
+ * Lists users
+ *
+ * Query parameters (all optional):
+ * - page, limit: pagination (default 1, 20; limit max 100)
+ * - q: partial match on email, username or Google ID
+ * - email, username, googleId: partial matches on that field
+ * - country: exact ISO 3166-1 alpha-2 code
+ * - roleId, suspended (true | false): filters
+ */
+export const listUsers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = listUsersQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit, q, email, username, googleId, country, roleId, suspended } =
+      parsed.data;
+
+    const contains = (value: string) => ({
+      contains: value,
+      mode: "insensitive" as const,
+    });
+    const now = new Date();
+
+    const where: Prisma.UserWhereInput = {
+      email: email ? contains(email) : undefined,
+      username: username ? contains(username) : undefined,
+      googleId: googleId ? contains(googleId) : undefined,
+      country,
+      roleId,
+      AND: [
+        q
+          ? {
+              OR: [
+                { email: contains(q) },
+                { username: contains(q) },
+                { googleId: contains(q) },
+              ],
+            }
+          : {},
+        suspended === undefined
+          ? {}
+          : suspended
+          ? {
+              suspendedAt: { not: null },
+              OR: [{ suspendedUntil: null }, { suspendedUntil: { gt: now } }],
+            }
+          : {
+              OR: [{ suspendedAt: null }, { suspendedUntil: { lte: now } }],
+            },
+      ],
+    };
+
+    const [users, total] = await prisma.$transaction([
+      prisma.user.findMany({
+        where,
+        orderBy: { id: "asc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: userSummarySelect,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    res.status(200).json({
+      users,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns a user with their role, active sessions, country and username
+ * history and NSFW state
+ */
+export const getUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseUserId(req);
+    const user = await prisma.user.findUnique({
+      where: { id },
+      include: { role: true },
+    });
+    if (!user) {
+      throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+    }
+
+    const [sessions, band, countryHistory, usernameHistory] = await Promise.all([
+      tokenService.listSessions(id),
+      getUserBand(user),
+      prisma.userCountryObservation.findMany({
+        where: { userId: id },
+        orderBy: { lastSeenAt: "desc" },
+        select: {
+          country: true,
+          source: true,
+          seenCount: true,
+          firstSeenAt: true,
+          lastSeenAt: true,
+        },
+      }),
+      prisma.usernameHistory.findMany({
+        where: { userId: id },
+        orderBy: { changedAt: "desc" },
+        select: { username: true, changedAt: true },
+      }),
+    ]);
+
+    const { tokenVersion, ...profile } = user;
+
+    res.status(200).json({
+      user: profile,
+      suspended: isUserSuspended(user),
+      sessions,
+      countryHistory,
+      usernameHistory,
+      nsfw: {
+        nsfwEnabled: user.nsfwEnabled,
+        verifiedForNSFW: user.verifiedForNSFW,
+        band: band.band,
+        reason: band.band === 1 ? band.reason : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Changes a user's role
+ *
+ * The new role must also rank below the actor's. Existing access tokens
+ * are revoked so the change applies immediately, and the user is notified.
+ */
+export const changeUserRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = changeRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid role data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const target = await getManageableUser(req);
+    const role = await prisma.role.findUnique({
+      where: { id: parsed.data.roleId },
+    });
+    if (!role) {
+      throw new AppError("Role not found", 404, ErrorAppCode.RoleNotFound);
+    }
+    if (role.priority <= req.user!.role.priority) {
+      throw new AppError(
+        "Cannot assign a role equal to or higher than your own",
+        403,
+        ErrorAppCode.InsufficientPermissions
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: target.id },
+      data: { roleId: role.id },
+      select: userSummarySelect,
+    });
+    await revokeUserAccessTokens(target.id);
+    describeAudit(req, {
+      action: "users.change_role",
+      targetType: "user",
+      targetId: target.id,
+      before: { roleId: target.roleId, role: target.role.name },
+      after: { roleId: role.id, role: role.name },
+    });
+    await notifySafely(() =>
+      notifyUser(target.id, "ROLE_CHANGED", {
+        title: `Your role is now ${role.name}`,
+        data: { roleId: role.id, previousRoleId: target.roleId },
+      })
+    );
+
+    res.status(200).json({ user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Signs a user out of every session and revokes their access tokens
+ */
+export const forceLogoutUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const target = await getManageableUser(req);
+
+    const revoked = await tokenService.revokeAllSessions(target.id);
+    await revokeUserAccessTokens(target.id);
+    describeAudit(req, {
+      action: "users.logout",
+      targetType: "user",
+      targetId: target.id,
+      after: { revokedSessions: revoked },
+    });
+
+    res.status(200).json({
+      revoked,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Suspends a user, optionally until a date, and signs them out everywhere
+ */
+export const suspendUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = suspendUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid suspension data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const target = await getManageableUser(req);
+
+    const user = await prisma.user.update({
+      where: { id: target.id },
+      data: {
+        suspendedAt: new Date(),
+        suspendedUntil: parsed.data.until ?? null,
+        suspensionReason: parsed.data.reason,
+      },
+      select: userSummarySelect,
+    });
+    await tokenService.revokeAllSessions(target.id);
+    await revokeUserAccessTokens(target.id);
+    describeAudit(req, {
+      action: "users.suspend",
+      targetType: "user",
+      targetId: target.id,
+      before: suspensionFields(target),
+      after: suspensionFields({ ...user, suspensionReason: parsed.data.reason }),
+    });
+
+    res.status(200).json({ user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lifts a user's suspension
+ */
+export const unsuspendUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const target = await getManageableUser(req);
+
+    const user = await prisma.user.update({
+      where: { id: target.id },
+      data: {
+        suspendedAt: null,
+        suspendedUntil: null,
+        suspensionReason: null,
+      },
+      select: userSummarySelect,
+    });
+    invalidateAuthUser(target.id);
+    describeAudit(req, {
+      action: "users.unsuspend",
+      targetType: "user",
+      targetId: target.id,
+      before: suspensionFields(target),
+      after: { suspendedAt: null, suspendedUntil: null, suspensionReason: null },
+    });
+
+    res.status(200).json({ user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Clears profile fields, e.g. an offensive username or avatar
+ *
+ * Resetting the username sends the user back through profile setup.
+ */
+export const resetUserProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = resetProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid reset data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const target = await getManageableUser(req);
+    const fields = new Set(parsed.data.fields);
+
+    const data: Prisma.UserUpdateInput = {};
+    fields.forEach((field) => {
+      data[field] = null;
+    });
+    if (fields.has("username")) {
+      data.usernameKey = null;
+      data.newUser = true;
+    }
+
+    // Uploaded images are deleted from storage along with their URLs
+    if (fields.has("profilePic")) data.profilePicVariants = Prisma.DbNull;
+    if (fields.has("bannerPic")) data.bannerPicVariants = Prisma.DbNull;
+
+    const user = await prisma.user.update({
+      where: { id: target.id },
+      data,
+      select: userSummarySelect,
+    });
+    invalidateAuthUser(target.id);
+    if (fields.has("profilePic")) await deleteStoredImages(target.profilePicVariants);
+    if (fields.has("bannerPic")) await deleteStoredImages(target.bannerPicVariants);
+    describeAudit(req, {
+      action: "users.reset_profile",
+      targetType: "user",
+      targetId: target.id,
+      before: Object.fromEntries(
+        [...fields].map((field) => [field, target[field]])
+      ),
+      after: Object.fromEntries([...fields].map((field) => [field, null])),
+    });
+
+    res.status(200).json({ user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns a user's effective permissions, what their role grants, and
+ * their own grants and denials
+ */
+export const getUserPermissions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseUserId(req);
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, roleId: true },
+    });
+    if (!user) {
+      throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+    }
+
+    const [permissions, rolePermissions, overrides] = await Promise.all([
+      getEffectivePermissions(user),
+      getRolePermissions(user.roleId),
+      prisma.userPermission.findMany({
+        where: { userId: id },
+        orderBy: { createdAt: "asc" },
+        select: {
+          granted: true,
+          grantedById: true,
+          createdAt: true,
+          permission: { select: { key: true } },
+        },
+      }),
+    ]);
+
+    res.status(200).json({
+      permissions,
+      rolePermissions: [...rolePermissions].sort(),
+      overrides: overrides.map(({ permission, ...override }) => ({
+        key: permission.key,
+        ...override,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Grants or denies a permission to a user, regardless of their role
+ *
+ * Body:
+ * - granted: true to grant, false to deny
+ */
+export const setUserPermission = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const key = parsePermissionKey(req);
+    const parsed = setUserPermissionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid permission data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const target = await getManageableUser(req);
+    await assertCanDelegate(req.user!, [key]);
+
+    const permission = await prisma.permission.findUnique({ where: { key } });
+    if (!permission) {
+      throw new AppError("Unknown permission", 400, ErrorAppCode.BadInput);
+    }
+
+    const where = {
+      userId_permissionId: { userId: target.id, permissionId: permission.id },
+    };
+    const existing = await prisma.userPermission.findUnique({ where });
+
+    const data = { granted: parsed.data.granted, grantedById: req.user!.id };
+    await prisma.userPermission.upsert({
+      where,
+      update: data,
+      create: { ...data, userId: target.id, permissionId: permission.id },
+    });
+    invalidateUserPermissions(target.id);
+    describeAudit(req, {
+      action: "users.permission.set",
+      targetType: "user",
+      targetId: target.id,
+      before: { [key]: existing ? existing.granted : null },
+      after: { [key]: data.granted },
+    });
+
+    res.status(200).json({
+      permissions: await getEffectivePermissions(target),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Removes a user's grant or denial, so their role decides again
+ */
+export const removeUserPermission = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const key = parsePermissionKey(req);
+    const target = await getManageableUser(req);
+    await assertCanDelegate(req.user!, [key]);
+
+    const existing = await prisma.userPermission.findFirst({
+      where: { userId: target.id, permission: { key } },
+    });
+    await prisma.userPermission.deleteMany({
+      where: { userId: target.id, permission: { key } },
+    });
+    invalidateUserPermissions(target.id);
+    describeAudit(req, {
+      action: "users.permission.remove",
+      targetType: "user",
+      targetId: target.id,
+      before: { [key]: existing ? existing.granted : null },
+      after: { [key]: null },
+    });
+
+    res.status(200).json({
+      permissions: await getEffectivePermissions(target),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
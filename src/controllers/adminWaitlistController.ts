@@ -0,0 +1,381 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { toCsv } from "@utils/csvUtils";
+import { describeAudit } from "@middleware/auditMiddleware";
+import {
+  getSignupMode,
+  inviteWaitlistEntries,
+  issueOpenInvites,
+} from "../services/waitlistService";
+import {
+  listWaitlistQuerySchema,
+  issueInvitesSchema,
+  listInvitesQuerySchema,
+} from "@schemas/adminWaitlistSchema";
+
+/**
+ * Admin Waitlist Controller
+ *
+ * Handles the waitlist and invite codes under `/admin/waitlist`:
+ * - Searching and exporting waitlist entries
+ * - Issuing invite codes in batches, either open or one per entry
+ * - Listing, exporting and revoking invite codes
+ * - Conversion figures: how many people were invited and signed up
+ */
+
+// Upper bound on rows in a single CSV export
+const WAITLIST_EXPORT_LIMIT = 10_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENTRY_CSV_COLUMNS = [
+  "id",
+  "createdAt",
+  "email",
+  "firstName",
+  "secondName",
+  "message",
+  "invitedAt",
+  "convertedAt",
+  "convertedUserId",
+] as const;
+
+const INVITE_CSV_COLUMNS = [
+  "id",
+  "code",
+  "batchId",
+  "email",
+  "expiresAt",
+  "usedAt",
+  "usedById",
+  "createdAt",
+] as const;
+
+/**
+ * Parses the `:id` route parameter into an invite ID
+ */
+const parseInviteId = (req: Request): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "Invite ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+const entryStatusFilter: Record<string, Prisma.WaitlistEntryWhereInput> = {
+  waiting: { invitedAt: null, convertedAt: null },
+  invited: { invitedAt: { not: null }, convertedAt: null },
+  converted: { convertedAt: { not: null } },
+};
+
+const inviteStatusFilter = (status: string): Prisma.InviteCodeWhereInput => {
+  const now = new Date();
+  switch (status) {
+    case "used":
+      return { usedAt: { not: null } };
+    case "expired":
+      return { usedAt: null, expiresAt: { lte: now } };
+    default:
+      return { usedAt: null, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] };
+  }
+};
+
+/**
+ * Lists waitlist entries, oldest first
+ *
+ * Query parameters (all optional):
+ * - page, limit: pagination (default 1, 50; limit max 100), JSON only
+ * - q: partial match on email, first or second name
+ * - status: waiting, invited or converted
+ * - from, to: joined between (inclusive; a `to` without a time covers that day)
+ * - format: json (default) or csv
+ */
+export const listWaitlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = listWaitlistQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit, q, status, from, to, format } = parsed.data;
+
+    const contains = (value: string) => ({
+      contains: value,
+      mode: "insensitive" as const,
+    });
+    const where: Prisma.WaitlistEntryWhereInput = {
+      ...(status && entryStatusFilter[status]),
+      createdAt: from || to ? { gte: from, ...to } : undefined,
+      OR: q
+        ? [
+            { email: contains(q) },
+            { firstName: contains(q) },
+            { secondName: contains(q) },
+          ]
+        : undefined,
+    };
+    const orderBy = [{ createdAt: "asc" }, { id: "asc" }] satisfies
+      Prisma.WaitlistEntryOrderByWithRelationInput[];
+
+    if (format === "csv") {
+      const entries = await prisma.waitlistEntry.findMany({
+        where,
+        orderBy,
+        take: WAITLIST_EXPORT_LIMIT,
+      });
+
+      res
+        .status(200)
+        .type("text/csv")
+        .attachment(`waitlist-${new Date().toISOString().slice(0, 10)}.csv`)
+        .send(toCsv(ENTRY_CSV_COLUMNS, entries));
+      return;
+    }
+
+    const [entries, total] = await prisma.$transaction([
+      prisma.waitlistEntry.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.waitlistEntry.count({ where }),
+    ]);
+
+    res.status(200).json({
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns waitlist and invite figures
+ *
+ * `conversionRate` is the share of invited entries that signed up.
+ */
+export const getWaitlistStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const [entries, invited, converted, invitedConverted, issued, used, expired] =
+      await prisma.$transaction([
+        prisma.waitlistEntry.count(),
+        prisma.waitlistEntry.count({ where: { invitedAt: { not: null } } }),
+        prisma.waitlistEntry.count({ where: { convertedAt: { not: null } } }),
+        prisma.waitlistEntry.count({
+          where: { invitedAt: { not: null }, convertedAt: { not: null } },
+        }),
+        prisma.inviteCode.count(),
+        prisma.inviteCode.count({ where: inviteStatusFilter("used") }),
+        prisma.inviteCode.count({ where: inviteStatusFilter("expired") }),
+      ]);
+
+    res.status(200).json({
+      signupMode: getSignupMode(),
+      waitlist: {
+        entries,
+        waiting: entries - invited - (converted - invitedConverted),
+        invited,
+        converted,
+        conversionRate: invited > 0 ? invitedConverted / invited : null,
+      },
+      invites: {
+        issued,
+        used,
+        expired,
+        unused: issued - used - expired,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Issues a batch of invite codes
+ *
+ * Body (count or entryIds):
+ * - count: number of codes anyone can use (max 500)
+ * - entryIds: waitlist entries to invite, one code each, only usable with
+ *   the entry's email; converted entries are skipped
+ * - expiresInDays (optional): omit for codes that never expire
+ */
+export const issueInvites = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = issueInvitesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid invite data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { count, entryIds, expiresInDays } = parsed.data;
+
+    const options = {
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * DAY_MS)
+        : undefined,
+      createdById: req.user?.id,
+    };
+    const result = entryIds
+      ? await inviteWaitlistEntries(entryIds, options)
+      : { ...(await issueOpenInvites(count!, options)), skipped: [] };
+
+    describeAudit(req, {
+      action: "waitlist.issue_invites",
+      targetType: "invite_batch",
+      targetId: result.batchId,
+      after: {
+        count: result.invites.length,
+        entryIds: entryIds ?? null,
+        expiresAt: options.expiresAt ?? null,
+      },
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists invite codes, newest first
+ *
+ * Query parameters (all optional):
+ * - page, limit: pagination (default 1, 50; limit max 100), JSON only
+ * - batchId: codes issued together
+ * - status: unused, used or expired
+ * - format: json (default) or csv
+ */
+export const listInvites = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = listInvitesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit, batchId, status, format } = parsed.data;
+
+    const where: Prisma.InviteCodeWhereInput = {
+      batchId,
+      ...(status && inviteStatusFilter(status)),
+    };
+    const orderBy = [{ createdAt: "desc" }, { id: "desc" }] satisfies
+      Prisma.InviteCodeOrderByWithRelationInput[];
+
+    if (format === "csv") {
+      const invites = await prisma.inviteCode.findMany({
+        where,
+        orderBy,
+        take: WAITLIST_EXPORT_LIMIT,
+      });
+
+      res
+        .status(200)
+        .type("text/csv")
+        .attachment(`invites-${new Date().toISOString().slice(0, 10)}.csv`)
+        .send(toCsv(INVITE_CSV_COLUMNS, invites));
+      return;
+    }
+
+    const [invites, total] = await prisma.$transaction([
+      prisma.inviteCode.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.inviteCode.count({ where }),
+    ]);
+
+    res.status(200).json({
+      invites,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revokes an unused invite code
+ */
+export const revokeInvite = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseInviteId(req);
+    const invite = await prisma.inviteCode.findUnique({ where: { id } });
+    if (!invite) {
+      throw new AppError("Invite not found", 404, ErrorAppCode.InviteNotFound);
+    }
+
+    const { count } = await prisma.inviteCode.deleteMany({
+      where: { id, usedAt: null },
+    });
+    if (count === 0) {
+      throw new AppError(
+        "Used invites cannot be revoked",
+        409,
+        ErrorAppCode.InviteInvalid
+      );
+    }
+    describeAudit(req, {
+      action: "waitlist.revoke_invite",
+      targetType: "invite",
+      targetId: id,
+      before: invite,
+    });
+
+    res.status(200).json({
+      message: "Invite revoked successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
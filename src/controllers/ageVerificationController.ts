@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import {
+  expireStaleRequests,
+  submitRequest,
+} from "../services/ageVerificationService";
+import { submitVerificationSchema } from "@schemas/ageVerificationSchema";
+
+/**
+ * Age Verification Controller
+ *
+ * Lets band 2 users ask to be verified for NSFW content under
+ * `/me/age-verification`. Requests are decided by the configured provider
+ * or by a moderator; see the admin age verification controller.
+ */
+
+// Fields of a request the user may see
+const requestSelect = {
+  id: true,
+  status: true,
+  provider: true,
+  expiresAt: true,
+  reviewedAt: true,
+  decisionReason: true,
+  createdAt: true,
+};
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Returns whether the user is verified and their latest request, if any
+ */
+export const getAgeVerification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    await expireStaleRequests(userId);
+
+    const request = await prisma.ageVerificationRequest.findFirst({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      select: requestSelect,
+    });
+
+    res.status(200).json({
+      verifiedForNSFW: req.user!.verifiedForNSFW,
+      request,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Submits an age verification request
+ *
+ * Body (optional):
+ * - evidence: { documentUrl?, note? } for the reviewer
+ */
+export const submitAgeVerification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = submitVerificationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid verification data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const { id } = await submitRequest(userId, parsed.data.evidence);
+    const request = await prisma.ageVerificationRequest.findUniqueOrThrow({
+      where: { id },
+      select: requestSelect,
+    });
+
+    res.status(201).json({
+      verifiedForNSFW: request.status === "APPROVED",
+      request,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -3,7 +3,8 @@ import { prisma } from "@libs/prisma";
 import { AppError, ErrorAppCode } from "@utils/errorHandler";
 import { generateAccessToken, TokenPayload } from "@utils/jwtUtils";
 import * as tokenService from "../services/tokenService";
-import { assignUserCountry } from "@utils/contentFilter";
+import { reevaluateUserCountry } from "../services/countryService";
+import { assertNotSuspended } from "@utils/userUtils";
 
 /**
  * Authentication Controller
@@ -42,32 +43,40 @@ export const handleGoogleAuthSuccess = async (
 
     const user = req.user as any;
 
-    // If user doesn't have a country, assign it
-    if (!user.country) {
-      const ip =
-        req.headers["x-forwarded-for"]?.toString().split(",")[0].trim() ||
-        req.socket.remoteAddress ||
-        "";
-      await assignUserCountry(user, ip);
-    }
+    // Suspended users cannot start new sessions
+    assertNotSuspended(user);
+
+    // Follow the user's country as they move or travel
+    await reevaluateUserCountry(user, req);
+
+    // Generate and store refresh token, starting a new session
+    const session = await tokenService.getSessionContext(req);
+    const storedToken = await tokenService.issueRefreshToken(
+      user.id,
+      res,
+      session
+    );
 
     // Generate token payload
     const tokenPayload: TokenPayload = {
       userId: user.id,
       email: user.email,
-      role: user.role,
+      role: user.role.name,
+      sessionId: storedToken.sessionId,
+      tokenVersion: user.tokenVersion,
     };
 
     // Generate access token
     const { accessToken, expiresIn } = generateAccessToken(tokenPayload);
 
-    // Generate and store refresh token
-    await tokenService.issueRefreshToken(user.id, res);
+    // Tell the user about anything suspicious since they last signed in
+    const securityAlerts = await tokenService.collectSecurityAlerts(user.id);
 
     // Return tokens
     res.status(200).json({
       accessToken,
       expiresIn,
+      securityAlerts,
       user: {
         id: user.id,
         email: user.email,
@@ -109,7 +118,11 @@ export const refreshToken = async (
     }
 
     // Rotate refresh token (validates, deletes old token, issues new token)
-    const userId = await tokenService.rotateRefreshToken(refreshToken, res);
+    const { userId, sessionId } = await tokenService.rotateRefreshToken(
+      refreshToken,
+      req,
+      res
+    );
 
     // Get user from database
     const user = await prisma.user.findUnique({
@@ -125,11 +138,17 @@ export const refreshToken = async (
       );
     }
 
+    assertNotSuspended(user);
+
+    await reevaluateUserCountry(user, req);
+
     // Generate token payload
     const tokenPayload: TokenPayload = {
       userId: user.id,
       email: user.email,
       role: user.role.name,
+      sessionId,
+      tokenVersion: user.tokenVersion,
     };
 
     // Generate new access token
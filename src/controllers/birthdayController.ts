@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { setBirthday as setUserBirthday } from "../services/birthdayService";
+import { setBirthdaySchema } from "@schemas/birthdaySchema";
+
+/**
+ * Birthday Controller
+ *
+ * Lets users set their birthday under `/me/profile/birthday`. The first
+ * birthday applies immediately; later changes wait for a moderator, see
+ * the admin birthday change controller.
+ */
+
+// Fields of a change request the user may see
+const requestSelect = {
+  id: true,
+  status: true,
+  requestedBirthday: true,
+  reason: true,
+  reviewedAt: true,
+  decisionReason: true,
+  createdAt: true,
+};
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Returns the user's birthday and their latest change request, if any
+ */
+export const getBirthday = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const changeRequest = await prisma.birthdayChangeRequest.findFirst({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      select: requestSelect,
+    });
+
+    res.status(200).json({
+      birthday: req.user!.birthday,
+      changeRequest,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sets the user's birthday, or asks a moderator to change it
+ *
+ * Body:
+ * - birthday: YYYY-MM-DD
+ * - reason (optional): why an existing birthday is wrong
+ *
+ * Responds 200 when applied, and 202 with the change request when the
+ * birthday was already set.
+ */
+export const setBirthday = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = setBirthdaySchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid birthday data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { birthday, reason } = parsed.data;
+
+    const result = await setUserBirthday(userId, birthday, reason);
+    if (!result.applied) {
+      const { id, status, requestedBirthday, createdAt } = result.request;
+      res.status(202).json({
+        message: "Birthday change submitted for review",
+        changeRequest: { id, status, requestedBirthday, reason, createdAt },
+      });
+      return;
+    }
+
+    res.status(200).json({
+      birthday,
+      nsfwDisabled: result.nsfwDisabled,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,325 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { assertMatureAccess } from "@utils/contentFilter";
+import { getPublishedChapterFilter } from "@utils/chapterUtils";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  getMatureContentFilter,
+  getRequestContentAccess,
+} from "@middleware/contentFilterMiddleware";
+import {
+  createChapterSchema,
+  updateChapterSchema,
+  listChaptersQuerySchema,
+} from "@schemas/chapterSchema";
+import {
+  notifyChapterIfPublished,
+  notifySafely,
+} from "../services/notificationService";
+import { hasPermissions } from "../services/permissionService";
+
+/**
+ * Chapter Controller
+ *
+ * Handles chapters and their ordered pages:
+ * - Listing the chapters of a series
+ * - The reader endpoint (pages plus previous/next chapter IDs)
+ * - Create/update/delete, gated to editors and above at the router
+ *
+ * A chapter is mature if it is marked NSFW itself or belongs to an NSFW
+ * series. Public routes run after `filterMatureContent`: mature chapters are
+ * hidden from lists and their pages refused to users not allowed by their band.
+ * Chapters scheduled for later are hidden from readers until published;
+ * users who may publish chapters see them ahead of time.
+ */
+
+/**
+ * Parses a numeric route parameter
+ */
+const parseIdParam = (req: Request, name: string, label: string): number => {
+  const id = Number(req.params[name]);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      `${label} ID is not a valid number`,
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Returns a `where` fragment hiding scheduled chapters from the requester,
+ * unless they may publish chapters
+ */
+const getScheduledChapterFilter = async (
+  req: Request
+): Promise<Prisma.ChapterWhereInput> => {
+  if (
+    req.user &&
+    (await hasPermissions(req.user, [PERMISSIONS.SERIES_PUBLISH.key]))
+  ) {
+    return {};
+  }
+  return getPublishedChapterFilter();
+};
+
+/**
+ * Lists the chapters of a series, ordered by chapter number
+ *
+ * Query parameters (optional):
+ * - language: only chapters in this language
+ * - order: asc (default) or desc
+ */
+export const listSeriesChapters = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const seriesId = parseIdParam(req, "id", "Series");
+    const parsed = listChaptersQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const series = await prisma.series.findUnique({
+      where: { id: seriesId },
+      select: { id: true, nsfw: true },
+    });
+    if (!series) {
+      throw new AppError("Series not found", 404, ErrorAppCode.SeriesNotFound);
+    }
+
+    if (series.nsfw) {
+      assertMatureAccess(getRequestContentAccess(req));
+    }
+
+    const chapters = await prisma.chapter.findMany({
+      where: {
+        ...getMatureContentFilter(req),
+        ...(await getScheduledChapterFilter(req)),
+        seriesId,
+        language: parsed.data.language,
+      },
+      orderBy: [{ number: parsed.data.order }, { createdAt: "asc" }],
+      include: { _count: { select: { pages: true } } },
+    });
+
+    res.status(200).json({
+      chapters: chapters.map(({ _count, ...chapter }) => ({
+        ...chapter,
+        pageCount: _count.pages,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns a chapter with its pages in reading order
+ *
+ * Also returns the IDs of the previous and next readable chapters of the
+ * same series in the same language, or null at either end.
+ */
+export const getChapter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseIdParam(req, "id", "Chapter");
+    const scheduled = await getScheduledChapterFilter(req);
+    const chapter = await prisma.chapter.findFirst({
+      where: { ...scheduled, id },
+      include: {
+        series: { select: { id: true, title: true, nsfw: true } },
+        pages: {
+          orderBy: { index: "asc" },
+          select: { index: true, url: true, width: true, height: true },
+        },
+      },
+    });
+
+    if (!chapter) {
+      throw new AppError("Chapter not found", 404, ErrorAppCode.ChapterNotFound);
+    }
+
+    // Don't leak pages of mature chapters
+    if (chapter.nsfw || chapter.series.nsfw) {
+      assertMatureAccess(getRequestContentAccess(req));
+    }
+
+    // Skip neighbours the requester would not be allowed to read
+    const siblings = {
+      ...getMatureContentFilter(req),
+      ...scheduled,
+      seriesId: chapter.seriesId,
+      language: chapter.language,
+    };
+    const [previous, nextChapter] = await Promise.all([
+      prisma.chapter.findFirst({
+        where: { ...siblings, number: { lt: chapter.number } },
+        orderBy: { number: "desc" },
+        select: { id: true },
+      }),
+      prisma.chapter.findFirst({
+        where: { ...siblings, number: { gt: chapter.number } },
+        orderBy: { number: "asc" },
+        select: { id: true },
+      }),
+    ]);
+
+    res.status(200).json({
+      chapter,
+      previousChapterId: previous?.id ?? null,
+      nextChapterId: nextChapter?.id ?? null,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Creates a chapter, with its pages, in a series
+ */
+export const createChapter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const seriesId = parseIdParam(req, "id", "Series");
+    const parsed = createChapterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid chapter data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const series = await prisma.series.findUnique({
+      where: { id: seriesId },
+      select: { id: true },
+    });
+    if (!series) {
+      throw new AppError("Series not found", 404, ErrorAppCode.SeriesNotFound);
+    }
+
+    const { pages = [], ...data } = parsed.data;
+    const chapter = await prisma.chapter.create({
+      data: {
+        ...data,
+        seriesId,
+        notifyPending: true,
+        pages: {
+          create: pages.map((page, index) => ({ ...page, index })),
+        },
+      },
+      include: { pages: { orderBy: { index: "asc" } } },
+    });
+
+    res.status(201).json({ chapter });
+
+    // A series can have many followers, so they are notified after
+    // responding; chapters published later are left to the background job
+    notifySafely(() => notifyChapterIfPublished(chapter.id));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Updates a chapter
+ *
+ * If `pages` is provided, it replaces the existing pages entirely.
+ */
+export const updateChapter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseIdParam(req, "id", "Chapter");
+    const parsed = updateChapterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid chapter data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const { pages, ...data } = parsed.data;
+
+    const chapter = await prisma.$transaction(async (tx) => {
+      const existing = await tx.chapter.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+      if (!existing) {
+        throw new AppError(
+          "Chapter not found",
+          404,
+          ErrorAppCode.ChapterNotFound
+        );
+      }
+
+      if (pages) {
+        await tx.chapterPage.deleteMany({ where: { chapterId: id } });
+        await tx.chapterPage.createMany({
+          data: pages.map((page, index) => ({ ...page, index, chapterId: id })),
+        });
+      }
+
+      return tx.chapter.update({
+        where: { id },
+        data,
+        include: { pages: { orderBy: { index: "asc" } } },
+      });
+    });
+
+    res.status(200).json({ chapter });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deletes a chapter and its pages
+ */
+export const deleteChapter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseIdParam(req, "id", "Chapter");
+    const existing = await prisma.chapter.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!existing) {
+      throw new AppError("Chapter not found", 404, ErrorAppCode.ChapterNotFound);
+    }
+
+    await prisma.chapter.delete({ where: { id } });
+
+    res.status(200).json({
+      message: "Chapter deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
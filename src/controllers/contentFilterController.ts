@@ -1,7 +1,22 @@
 import { Request, Response, NextFunction } from "express";
 import { prisma } from "@libs/prisma";
 import { AppError, ErrorAppCode } from "@utils/errorHandler";
-import { getUserBand } from "@utils/contentFilter";
+import {
+  DEFAULT_MINIMUM_AGE,
+  getUserBand,
+  getBandMessage,
+} from "@utils/contentFilter";
+import { invalidateAuthUser } from "../services/authStateService";
+import { describeAudit } from "@middleware/auditMiddleware";
+import { simulatePolicyChange } from "../services/nsfwPolicyService";
+import {
+  countryCodeSchema,
+  updateNSFWPolicySchema,
+  addRestrictedCountrySchema,
+  importRestrictedCountriesSchema,
+  setCountryMinimumAgeSchema,
+  nsfwPolicyDryRunSchema,
+} from "@schemas/nsfwPolicySchema";
 
 /**
  * Returns the user's NSFW status
@@ -55,6 +70,12 @@ export const toggleUserNSFWStatus = async (
 
   // if user is trying to disable it, allow it
   if (req.body.nsfwEnabled === false) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { nsfwEnabled: false },
+    });
+    invalidateAuthUser(user.id);
+
     res.status(200).json({
       nsfwEnabled: false,
     });
@@ -63,29 +84,11 @@ export const toggleUserNSFWStatus = async (
 
   if (band.band === 1) {
     // band.reason appcode, also return a human readable message
-    let message;
-    switch (band.reason) {
-      case ErrorAppCode.MissingNSFWPolicy:
-        message = "NSFW policy not found";
-        break;
-      case ErrorAppCode.CountryBanned:
-        message = "This feature is not available in your country";
-        break;
-      case ErrorAppCode.CountryLimited:
-        // this will only occur if band 2 is disabled
-        message = "This feature is not available in your country";
-        break;
-      case ErrorAppCode.BirthdayRequired:
-        message = "You must provide your birthday to use this feature";
-        break;
-      case ErrorAppCode.Underage:
-        message = "You must be at least 18 years old to use this feature";
-        break;
-      default:
-        message = "This feature is not available in your country";
-    }
-
-    throw new AppError(message, 403, band.reason);
+    throw new AppError(
+      getBandMessage(band.reason, band.minimumAge),
+      403,
+      band.reason
+    );
   } else if (band.band === 2) {
     // if band 2 is enabled, but user is not verified, return error
     if (!userModel.verifiedForNSFW) {
@@ -100,6 +103,7 @@ export const toggleUserNSFWStatus = async (
       where: { id: user.id },
       data: { nsfwEnabled: true },
     });
+    invalidateAuthUser(user.id);
 
     res.status(200).json({
       nsfwEnabled: true,
@@ -110,6 +114,7 @@ export const toggleUserNSFWStatus = async (
       where: { id: user.id },
       data: { nsfwEnabled: true },
     });
+    invalidateAuthUser(user.id);
 
     res.status(200).json({
       nsfwEnabled: true,
@@ -117,10 +122,27 @@ export const toggleUserNSFWStatus = async (
   }
 };
 
+/**
+ * Parses the `:countryCode` route parameter
+ */
+const parseCountryCode = (req: Request): string => {
+  const parsed = countryCodeSchema.safeParse(req.params.countryCode);
+  if (!parsed.success) {
+    throw new AppError(
+      "Country must be an ISO 3166-1 alpha-2 code",
+      400,
+      ErrorAppCode.ValidationFailed,
+      parsed.error.flatten()
+    );
+  }
+  return parsed.data;
+};
+
 /**
  * Get admin settings for NSFW policy
  *
- * Returns the nsfw policy and band 1/2 countries
+ * Returns the nsfw policy (null if it was never set up), band 1/2
+ * countries and per-country minimum ages
  */
 export const getNSFWPolicy = async (
   req: Request,
@@ -129,11 +151,17 @@ export const getNSFWPolicy = async (
 ) => {
   try {
     const nsfwPolicy = await prisma.nSFWPolicy.findUnique({ where: { id: 1 } });
-    const restrictedCountries = await prisma.nSFWRestrictedCountry.findMany();
+    const restrictedCountries = await prisma.nSFWRestrictedCountry.findMany({
+      orderBy: { countryCode: "asc" },
+    });
+    const countryMinimumAges = await prisma.nSFWCountryMinimumAge.findMany({
+      orderBy: { countryCode: "asc" },
+    });
 
     res.status(200).json({
       nsfwPolicy,
       restrictedCountries,
+      countryMinimumAges,
     });
   } catch (error) {
     next(error);
@@ -141,30 +169,128 @@ export const getNSFWPolicy = async (
 };
 
 /**
- * Adds a new restricted country to the NSFW policy
+ * Updates the NSFW policy, creating it if it doesn't exist yet
+ *
+ * Body (at least one):
+ * - band2Enabled: whether band 2 countries allow NSFW after age verification
+ * - minimumAge: default minimum age, for countries without their own
+ * - countryPolicy: STRICTEST_RECENT, LATEST_WINS or STICKY; how a user's
+ *   country follows the countries they sign in from
+ * - countryWindowDays: how far back STRICTEST_RECENT looks
  */
-export const addRestrictedCountry = async (
+export const updateNSFWPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = updateNSFWPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid policy data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const before = await prisma.nSFWPolicy.findUnique({ where: { id: 1 } });
+    const nsfwPolicy = await prisma.nSFWPolicy.upsert({
+      where: { id: 1 },
+      update: parsed.data,
+      create: { id: 1, minimumAge: DEFAULT_MINIMUM_AGE, ...parsed.data },
+    });
+    describeAudit(req, {
+      action: "content_filter.policy.update",
+      targetType: "nsfw_policy",
+      targetId: nsfwPolicy.id,
+      before,
+      after: nsfwPolicy,
+    });
+
+    res.status(200).json({ nsfwPolicy });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reports how many users' bands would change under a proposed policy,
+ * without changing anything
+ *
+ * Body (all optional; omitted parts keep their current value):
+ * - band2Enabled, minimumAge: policy fields
+ * - restrictedCountries: full list of { country, band }
+ * - countryMinimumAges: full list of { country, minimumAge }
+ */
+export const dryRunNSFWPolicy = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const country = req.body.country;
-    const band = req.body.band;
+    const parsed = nsfwPolicyDryRunSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid policy data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const simulation = await simulatePolicyChange(parsed.data);
+    describeAudit(req, {
+      action: "content_filter.policy.dry_run",
+      targetType: "nsfw_policy",
+      targetId: 1,
+      after: parsed.data,
+    });
 
-    if (!country || !band) {
+    res.status(200).json({ simulation });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Adds a restricted country to the NSFW policy, or changes its band
+ *
+ * Body:
+ * - country: ISO 3166-1 alpha-2 code
+ * - band: 1 (banned) or 2 (age verification)
+ */
+export const addRestrictedCountry = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = addRestrictedCountrySchema.safeParse(req.body);
+    if (!parsed.success) {
       throw new AppError(
-        "Missing country or band",
+        "Invalid country data",
         400,
-        ErrorAppCode.ValidationFailed
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
       );
     }
+    const { country, band } = parsed.data;
 
-    await prisma.nSFWRestrictedCountry.create({
-      data: {
-        countryCode: country,
-        band,
-      },
+    const before = await prisma.nSFWRestrictedCountry.findUnique({
+      where: { countryCode: country },
+    });
+    const restricted = await prisma.nSFWRestrictedCountry.upsert({
+      where: { countryCode: country },
+      update: { band },
+      create: { countryCode: country, band },
+    });
+    describeAudit(req, {
+      action: "content_filter.restricted_country.add",
+      targetType: "restricted_country",
+      targetId: restricted.countryCode,
+      before,
+      after: restricted,
     });
 
     res.status(200).json({
@@ -175,6 +301,74 @@ export const addRestrictedCountry = async (
   }
 };
 
+/**
+ * Imports a list of restricted countries
+ *
+ * Body:
+ * - countries: list of { country, band }
+ * - mode: "merge" (default) adds or updates the listed countries;
+ *   "replace" also removes every country not listed
+ */
+export const importRestrictedCountries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = importRestrictedCountriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid country list",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { countries, mode } = parsed.data;
+
+    const [before, restrictedCountries] = await prisma.$transaction(
+      async (tx) => {
+        const before = await tx.nSFWRestrictedCountry.findMany({
+          orderBy: { countryCode: "asc" },
+        });
+
+        if (mode === "replace") {
+          await tx.nSFWRestrictedCountry.deleteMany({
+            where: {
+              countryCode: { notIn: countries.map(({ country }) => country) },
+            },
+          });
+        }
+        for (const { country, band } of countries) {
+          await tx.nSFWRestrictedCountry.upsert({
+            where: { countryCode: country },
+            update: { band },
+            create: { countryCode: country, band },
+          });
+        }
+
+        const after = await tx.nSFWRestrictedCountry.findMany({
+          orderBy: { countryCode: "asc" },
+        });
+        return [before, after];
+      }
+    );
+
+    const toBands = (rows: { countryCode: string; band: number }[]) =>
+      Object.fromEntries(rows.map((row) => [row.countryCode, row.band]));
+    describeAudit(req, {
+      action: `content_filter.restricted_country.import_${mode}`,
+      targetType: "restricted_country",
+      before: toBands(before),
+      after: toBands(restrictedCountries),
+    });
+
+    res.status(200).json({ restrictedCountries });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Removes a restricted country from the NSFW policy
  */
@@ -184,10 +378,17 @@ export const removeRestrictedCountry = async (
   next: NextFunction
 ) => {
   try {
-    const country = req.body.country;
+    const country = parseCountryCode(req);
 
-    if (!country) {
-      throw new AppError("Missing country", 400, ErrorAppCode.ValidationFailed);
+    const restricted = await prisma.nSFWRestrictedCountry.findUnique({
+      where: { countryCode: country },
+    });
+    if (!restricted) {
+      throw new AppError(
+        "Country is not restricted",
+        404,
+        ErrorAppCode.CountryRuleNotFound
+      );
     }
 
     await prisma.nSFWRestrictedCountry.delete({
@@ -195,6 +396,12 @@ export const removeRestrictedCountry = async (
         countryCode: country,
       },
     });
+    describeAudit(req, {
+      action: "content_filter.restricted_country.remove",
+      targetType: "restricted_country",
+      targetId: restricted.countryCode,
+      before: restricted,
+    });
 
     res.status(200).json({
       message: "Country removed successfully",
@@ -203,3 +410,88 @@ export const removeRestrictedCountry = async (
     next(error);
   }
 };
+
+/**
+ * Sets a country's minimum age, overriding the policy default
+ *
+ * Body:
+ * - minimumAge: age in years
+ */
+export const setCountryMinimumAge = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const country = parseCountryCode(req);
+    const parsed = setCountryMinimumAgeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid minimum age",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const before = await prisma.nSFWCountryMinimumAge.findUnique({
+      where: { countryCode: country },
+    });
+    const countryMinimumAge = await prisma.nSFWCountryMinimumAge.upsert({
+      where: { countryCode: country },
+      update: { minimumAge: parsed.data.minimumAge },
+      create: { countryCode: country, minimumAge: parsed.data.minimumAge },
+    });
+    describeAudit(req, {
+      action: "content_filter.minimum_age.set",
+      targetType: "country_minimum_age",
+      targetId: country,
+      before,
+      after: countryMinimumAge,
+    });
+
+    res.status(200).json({ countryMinimumAge });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Removes a country's minimum age, so the policy default applies
+ */
+export const removeCountryMinimumAge = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const country = parseCountryCode(req);
+
+    const countryMinimumAge = await prisma.nSFWCountryMinimumAge.findUnique({
+      where: { countryCode: country },
+    });
+    if (!countryMinimumAge) {
+      throw new AppError(
+        "Country has no minimum age of its own",
+        404,
+        ErrorAppCode.CountryRuleNotFound
+      );
+    }
+
+    await prisma.nSFWCountryMinimumAge.delete({
+      where: { countryCode: country },
+    });
+    describeAudit(req, {
+      action: "content_filter.minimum_age.remove",
+      targetType: "country_minimum_age",
+      targetId: country,
+      before: countryMinimumAge,
+    });
+
+    res.status(200).json({
+      message: "Minimum age removed successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
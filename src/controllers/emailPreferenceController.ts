@@ -0,0 +1,149 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import {
+  getEmailPreferences,
+  updateEmailPreferences,
+  unsubscribeFromCategory,
+  verifyUnsubscribeToken,
+} from "../services/emailPreferenceService";
+import {
+  updateEmailPreferencesSchema,
+  unsubscribeQuerySchema,
+} from "@schemas/emailPreferenceSchema";
+
+/**
+ * Email Preference Controller
+ *
+ * Lets the authenticated user choose which optional emails they get under
+ * `/me/email-preferences`, and anyone holding an unsubscribe link turn off
+ * one category under `/email/unsubscribe` without signing in.
+ */
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Parses and checks the `token` query parameter
+ */
+const parseUnsubscribeToken = (req: Request) => {
+  const parsed = unsubscribeQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw new AppError(
+      "Invalid query parameters",
+      400,
+      ErrorAppCode.ValidationFailed,
+      parsed.error.flatten()
+    );
+  }
+
+  const target = verifyUnsubscribeToken(parsed.data.token);
+  if (!target) {
+    throw new AppError(
+      "Unsubscribe link is not valid",
+      400,
+      ErrorAppCode.UnsubscribeTokenInvalid
+    );
+  }
+  return target;
+};
+
+/**
+ * Returns which categories of email the user receives
+ */
+export const getEmailPreferenceSettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const preferences = await getEmailPreferences(getUserId(req));
+
+    res.status(200).json({ preferences });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Turns categories of email on or off
+ *
+ * Body (at least one), each a boolean:
+ * - security: security alerts
+ * - account: decisions on the user's requests
+ * - announcements: product news
+ */
+export const updateEmailPreferenceSettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = updateEmailPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid email preference data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const preferences = await updateEmailPreferences(userId, parsed.data);
+
+    res.status(200).json({ preferences });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns the category an unsubscribe link is for, so the frontend can
+ * ask for confirmation
+ *
+ * Nothing changes on GET, as mail scanners follow links.
+ */
+export const describeUnsubscribe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { category } = parseUnsubscribeToken(req);
+
+    res.status(200).json({ category });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Turns off the category an unsubscribe link is for
+ *
+ * Also the target of one-click unsubscribe (RFC 8058) from mail clients.
+ */
+export const unsubscribe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, category } = parseUnsubscribeToken(req);
+
+    await unsubscribeFromCategory(userId, category);
+
+    res.status(200).json({
+      message: "Unsubscribed successfully",
+      category,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,498 @@
+import { Request, Response, NextFunction } from "express";
+import { ShelfKind } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { assertMatureAccess } from "@utils/contentFilter";
+import {
+  getMatureContentFilter,
+  getRequestContentAccess,
+} from "@middleware/contentFilterMiddleware";
+import {
+  ensureDefaultShelves,
+  getUserShelf,
+  placeEntries,
+} from "../services/libraryService";
+import {
+  createShelfSchema,
+  updateShelfSchema,
+  addEntrySchema,
+  reorderEntriesSchema,
+  moveEntriesSchema,
+  listEntriesQuerySchema,
+} from "@schemas/librarySchema";
+
+/**
+ * Library Controller
+ *
+ * Handles the authenticated user's library under `/me/library`:
+ * - Shelves with entry counts
+ * - Custom lists (create, rename, reorder, delete)
+ * - Choosing which shelves appear on the public profile
+ * - Adding, removing, ordering and bulk moving series between shelves
+ *
+ * Routes run after `filterMatureContent`. Mature series are hidden from
+ * shelves and counts while the user cannot view them, but never deleted,
+ * so they reappear when NSFW is enabled again.
+ */
+
+/**
+ * Parses a numeric route parameter
+ */
+const parseIdParam = (req: Request, name: string, label: string): number => {
+  const id = Number(req.params[name]);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      `${label} ID is not a valid number`,
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Returns the user's shelves in order, with the number of visible entries
+ */
+export const getLibrary = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    await ensureDefaultShelves(userId);
+
+    const shelves = await prisma.libraryShelf.findMany({
+      where: { userId },
+      orderBy: [{ position: "asc" }, { id: "asc" }],
+      include: {
+        _count: {
+          select: {
+            entries: { where: { series: getMatureContentFilter(req) } },
+          },
+        },
+      },
+    });
+
+    res.status(200).json({
+      shelves: shelves.map(({ _count, ...shelf }) => ({
+        ...shelf,
+        count: _count.entries,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Creates a custom list
+ */
+export const createShelf = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = createShelfSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid shelf data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    await ensureDefaultShelves(userId);
+
+    const shelf = await prisma.$transaction(async (tx) => {
+      const exists = await tx.libraryShelf.findFirst({
+        where: { userId, name: parsed.data.name },
+        select: { id: true },
+      });
+      if (exists) {
+        throw new AppError(
+          "A shelf with this name already exists",
+          409,
+          ErrorAppCode.ShelfAlreadyExists
+        );
+      }
+
+      const last = await tx.libraryShelf.aggregate({
+        where: { userId },
+        _max: { position: true },
+      });
+
+      return tx.libraryShelf.create({
+        data: {
+          userId,
+          name: parsed.data.name,
+          kind: ShelfKind.CUSTOM,
+          position: (last._max.position ?? -1) + 1,
+          isPublic: parsed.data.isPublic,
+        },
+      });
+    });
+
+    res.status(201).json({ shelf });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Renames, repositions or publishes a shelf
+ *
+ * Default status shelves can be repositioned but not renamed.
+ */
+export const updateShelf = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const shelfId = parseIdParam(req, "shelfId", "Shelf");
+    const parsed = updateShelfSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid shelf data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const shelf = await getUserShelf(userId, shelfId);
+    const { name, position, isPublic } = parsed.data;
+
+    if (name !== undefined && name !== shelf.name) {
+      if (shelf.kind !== ShelfKind.CUSTOM) {
+        throw new AppError(
+          "Default shelves cannot be renamed",
+          400,
+          ErrorAppCode.BadInput
+        );
+      }
+
+      const exists = await prisma.libraryShelf.findFirst({
+        where: { userId, name },
+        select: { id: true },
+      });
+      if (exists) {
+        throw new AppError(
+          "A shelf with this name already exists",
+          409,
+          ErrorAppCode.ShelfAlreadyExists
+        );
+      }
+    }
+
+    const updated = await prisma.libraryShelf.update({
+      where: { id: shelf.id },
+      data: { name, position, isPublic },
+    });
+
+    res.status(200).json({ shelf: updated });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deletes a custom list and its entries
+ */
+export const deleteShelf = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const shelfId = parseIdParam(req, "shelfId", "Shelf");
+    const shelf = await getUserShelf(userId, shelfId);
+
+    if (shelf.kind !== ShelfKind.CUSTOM) {
+      throw new AppError(
+        "Default shelves cannot be deleted",
+        400,
+        ErrorAppCode.BadInput
+      );
+    }
+
+    await prisma.libraryShelf.delete({ where: { id: shelf.id } });
+
+    res.status(200).json({
+      message: "Shelf deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists the visible entries of a shelf in order
+ *
+ * Query parameters (optional):
+ * - page, limit: pagination (default 1, 50; limit max 100)
+ */
+export const getShelfEntries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const shelfId = parseIdParam(req, "shelfId", "Shelf");
+    const parsed = listEntriesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit } = parsed.data;
+
+    const shelf = await getUserShelf(userId, shelfId);
+    const where = { shelfId: shelf.id, series: getMatureContentFilter(req) };
+
+    const [entries, total] = await prisma.$transaction([
+      prisma.libraryEntry.findMany({
+        where,
+        orderBy: [{ position: "asc" }, { id: "asc" }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          series: {
+            select: {
+              id: true,
+              title: true,
+              coverImage: true,
+              status: true,
+              nsfw: true,
+            },
+          },
+        },
+      }),
+      prisma.libraryEntry.count({ where }),
+    ]);
+
+    res.status(200).json({
+      shelf,
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Adds a series to the end of a shelf
+ *
+ * Adding to a status shelf moves the series off any other status shelf.
+ */
+export const addShelfEntry = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const shelfId = parseIdParam(req, "shelfId", "Shelf");
+    const parsed = addEntrySchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid entry data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const series = await prisma.series.findUnique({
+      where: { id: parsed.data.seriesId },
+      select: { id: true, nsfw: true },
+    });
+    if (!series) {
+      throw new AppError("Series not found", 404, ErrorAppCode.SeriesNotFound);
+    }
+    if (series.nsfw) {
+      assertMatureAccess(getRequestContentAccess(req));
+    }
+
+    const shelf = await getUserShelf(userId, shelfId);
+    await prisma.$transaction((tx) => placeEntries(tx, shelf, [series.id]));
+
+    res.status(200).json({
+      message: "Series added to shelf",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Removes a series from a shelf
+ */
+export const removeShelfEntry = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const shelfId = parseIdParam(req, "shelfId", "Shelf");
+    const seriesId = parseIdParam(req, "seriesId", "Series");
+
+    const shelf = await getUserShelf(userId, shelfId);
+    await prisma.libraryEntry.deleteMany({
+      where: { shelfId: shelf.id, seriesId },
+    });
+
+    res.status(200).json({
+      message: "Series removed from shelf",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reorders the entries of a shelf
+ *
+ * The listed series take the first positions in the given order; any
+ * other entries (including hidden mature ones) keep their relative order
+ * after them.
+ */
+export const reorderShelfEntries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const shelfId = parseIdParam(req, "shelfId", "Shelf");
+    const parsed = reorderEntriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid order data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const shelf = await getUserShelf(userId, shelfId);
+    const ordered = [...new Set(parsed.data.seriesIds)];
+
+    await prisma.$transaction(async (tx) => {
+      const entries = await tx.libraryEntry.findMany({
+        where: { shelfId: shelf.id },
+        orderBy: [{ position: "asc" }, { id: "asc" }],
+        select: { id: true, seriesId: true },
+      });
+
+      const bySeries = new Map(entries.map((entry) => [entry.seriesId, entry]));
+      const missing = ordered.filter((id) => !bySeries.has(id));
+      if (missing.length > 0) {
+        throw new AppError(
+          "Some series are not on this shelf",
+          400,
+          ErrorAppCode.BadInput,
+          { seriesIds: missing }
+        );
+      }
+
+      const listed = new Set(ordered);
+      const finalOrder = [
+        ...ordered.map((id) => bySeries.get(id)!),
+        ...entries.filter((entry) => !listed.has(entry.seriesId)),
+      ];
+
+      for (const [position, entry] of finalOrder.entries()) {
+        await tx.libraryEntry.update({
+          where: { id: entry.id },
+          data: { position },
+        });
+      }
+    });
+
+    res.status(200).json({
+      message: "Shelf reordered successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Moves series from one shelf to another in bulk
+ *
+ * Series not on the source shelf are ignored. Moved series are appended to
+ * the destination shelf in the given order.
+ */
+export const moveShelfEntries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = moveEntriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid move data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { fromShelfId, toShelfId, seriesIds } = parsed.data;
+
+    const moved = await prisma.$transaction(async (tx) => {
+      const from = await getUserShelf(userId, fromShelfId, tx);
+      const to = await getUserShelf(userId, toShelfId, tx);
+
+      const entries = await tx.libraryEntry.findMany({
+        where: { shelfId: from.id, seriesId: { in: seriesIds } },
+        select: { seriesId: true },
+      });
+      const present = new Set(entries.map((entry) => entry.seriesId));
+      const toMove = seriesIds.filter((id) => present.has(id));
+      if (toMove.length === 0) return [];
+
+      await tx.libraryEntry.deleteMany({
+        where: { shelfId: from.id, seriesId: { in: toMove } },
+      });
+      await placeEntries(tx, to, toMove);
+
+      return toMove;
+    });
+
+    res.status(200).json({
+      moved,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
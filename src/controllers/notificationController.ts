@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import {
+  countUnreadNotifications,
+  getNotificationPreferences,
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationsRead,
+  updateNotificationPreferences,
+} from "../services/notificationService";
+import {
+  listNotificationsQuerySchema,
+  markNotificationsReadSchema,
+  updateNotificationPreferencesSchema,
+} from "@schemas/notificationSchema";
+
+/**
+ * Notification Controller
+ *
+ * The authenticated user's notification centre under `/me/notifications`:
+ * - Listing notifications with cursor pagination, and the unread count
+ * - Marking some or all of them as read
+ * - Choosing which types of notification they get
+ */
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Lists the user's notifications, newest first
+ *
+ * Query parameters (optional):
+ * - limit: items per page (default 20, max 50)
+ * - cursor: ID of the last item of the previous page
+ * - unread (true | false): only unread, or only read, notifications
+ */
+export const getNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = listNotificationsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const page = await listNotifications(userId, parsed.data);
+
+    res.status(200).json(page);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns how many notifications the user has not read
+ */
+export const getUnreadNotificationCount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const unread = await countUnreadNotifications(getUserId(req));
+
+    res.status(200).json({ unread });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Marks notifications as read
+ *
+ * Body:
+ * - ids: notification IDs (1 to 100)
+ */
+export const readNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = markNotificationsReadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid notification data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const marked = await markNotificationsRead(userId, parsed.data.ids);
+
+    res.status(200).json({ marked });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Marks all of the user's notifications as read
+ */
+export const readAllNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const marked = await markAllNotificationsRead(getUserId(req));
+
+    res.status(200).json({ marked });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns which types of notification the user gets
+ */
+export const getNotificationSettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const preferences = await getNotificationPreferences(getUserId(req));
+
+    res.status(200).json({ preferences });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Turns types of notification on or off
+ *
+ * Body (at least one): a boolean per notification type, e.g.
+ * `{ "NEW_CHAPTER": false }`
+ */
+export const updateNotificationSettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = updateNotificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid notification preference data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const preferences = await updateNotificationPreferences(userId, parsed.data);
+
+    res.status(200).json({ preferences });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { getEffectivePermissions } from "../services/permissionService";
+
+/**
+ * Permission Controller
+ *
+ * Tells the authenticated user what they are allowed to do, so the
+ * frontend can hide controls they cannot use. The API still checks every
+ * request with `requirePermission`.
+ */
+
+/**
+ * Returns the user's role and effective permissions
+ */
+export const getMyPermissions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+    }
+
+    const permissions = await getEffectivePermissions(req.user);
+
+    res.status(200).json({
+      role: req.user.role.name,
+      permissions,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
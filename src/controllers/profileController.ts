@@ -5,6 +5,11 @@ import {
   userProfileSetupSchema,
   userProfileSchema,
 } from "@root/types/userProfileSetup";
+import { invalidateAuthUser } from "../services/authStateService";
+import {
+  changeUsername,
+  getNextUsernameChangeAt,
+} from "../services/usernameService";
 
 // Sets up a profile
 export const profileSetupHandler = async (
@@ -17,45 +22,17 @@ export const profileSetupHandler = async (
   // Validate request body with Zod
   const data = userProfileSetupSchema.parse(req.body);
 
-  // Begin transaction for database operations
-  const result = await prisma.$transaction(async (tx) => {
-    // Find the user by ID
-    const user = await tx.user.findUnique({
-      where: { id: userId },
-      select: { username: true, updatedAt: true },
-    });
-
-    // If user not found, throw custom error
-    if (!user) {
-      throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
-    }
-
-    // Check if the username is taken by someone else
-    if (data.username !== user.username) {
-      const exists = await tx.user.findUnique({
-        where: { username: data.username },
-      });
-      if (exists) {
-        throw new AppError(
-          "Username already taken",
-          409,
-          ErrorAppCode.BadInput
-        );
-      }
-    }
+  // Checks availability, reserved names and the change cooldown
+  await changeUsername(userId!, data.username);
 
-    // Update the user profile with new data
-    const updated = await tx.user.update({
-      where: { id: userId },
-      data: {
-        username: data.username,
-        bio: data.bio,
-        newUser: true,
-      },
-    });
-
-    return updated;
+  const result = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      bio: data.bio,
+      newUser: true,
+    },
   });
+  invalidateAuthUser(userId!);
 
   // If we have a valid result, send back the updated user profile
   if (result && typeof result === "object" && "username" in result) {
@@ -94,6 +71,7 @@ export const getUserProfile = async (
       nsfwEnabled: true,
       verifiedForNSFW: true,
       country: true,
+      deletionScheduledFor: true,
     },
   });
 
@@ -104,14 +82,50 @@ export const getUserProfile = async (
   res.status(200).json({ user });
 };
 
+/**
+ * Returns the user's username, previous usernames, and when they can next
+ * change it (null if now)
+ */
+export const getUsernameStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const userId = req.user?.id;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      username: true,
+      usernameChangedAt: true,
+      usernameHistory: {
+        orderBy: { changedAt: "desc" },
+        select: { username: true, changedAt: true },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+  }
+
+  res.status(200).json({
+    username: user.username,
+    nextChangeAt: getNextUsernameChangeAt(user),
+    history: user.usernameHistory,
+  });
+};
+
 /**
  * Edits any part of the user's profile
  * Fields:
- * - username (optional)
+ * - username (optional): see the username service for the change rules
  * - bio (optional)
- * - profilePic (optional)
- * - bannerPic (optional)
  * - colorTheme (optional)
+ * - gender (optional): one of GENDERS, or null to clear it
+ *
+ * Birthday, avatar and banner have their own endpoints, see
+ * birthdayController and profileImageController.
  */
 export const editUserProfile = async (
   req: Request,
@@ -121,6 +135,10 @@ export const editUserProfile = async (
   const userId = req.user?.id;
   const data = userProfileSchema.parse(req.body);
 
+  if (data.username !== undefined) {
+    await changeUsername(userId!, data.username);
+  }
+
   const result = await prisma.$transaction(async (tx) => {
     // Find the user by ID
     const user = await tx.user.findUnique({
@@ -137,17 +155,16 @@ export const editUserProfile = async (
     const updated = await tx.user.update({
       where: { id: userId },
       data: {
-        username: data.username,
         bio: data.bio,
-        profilePic: data.profilePic,
-        bannerPic: data.bannerPic,
         colorTheme: data.colorTheme,
+        gender: data.gender,
         newUser: true,
       },
     });
 
     return updated;
   });
+  invalidateAuthUser(userId!);
 
   // If we have a valid result, send back the updated user profile
   if (result && typeof result === "object" && "username" in result) {
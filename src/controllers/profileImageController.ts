@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import {
+  ProfileImageKindName,
+  removeProfileImage,
+  replaceProfileImage,
+} from "../services/imageService";
+
+/**
+ * Profile Image Controller
+ *
+ * Uploads and removes the authenticated user's avatar and banner under
+ * `/me/profile/avatar` and `/me/profile/banner`. Uploads are multipart
+ * forms with the file in the `image` field; see the image service for the
+ * processing applied.
+ */
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Processes the uploaded file and responds with the stored image
+ */
+const storeUpload = async (
+  req: Request,
+  res: Response,
+  kind: ProfileImageKindName
+): Promise<void> => {
+  const userId = getUserId(req);
+  const { url, variants } = await replaceProfileImage(
+    userId,
+    kind,
+    req.file!.buffer
+  );
+
+  res.status(200).json({
+    url,
+    variants: variants.map(({ key, ...variant }) => variant),
+  });
+};
+
+/**
+ * Replaces the user's avatar
+ *
+ * Form data:
+ * - image: JPEG, PNG, WebP, GIF, AVIF or HEIF, up to 5 MB
+ */
+export const uploadAvatar = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await storeUpload(req, res, "avatar");
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replaces the user's banner
+ *
+ * Form data:
+ * - image: JPEG, PNG, WebP, GIF, AVIF or HEIF, up to 10 MB
+ */
+export const uploadBanner = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await storeUpload(req, res, "banner");
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Removes the user's avatar
+ */
+export const deleteAvatar = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await removeProfileImage(getUserId(req), "avatar");
+
+    res.status(200).json({
+      message: "Avatar removed successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Removes the user's banner
+ */
+export const deleteBanner = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await removeProfileImage(getUserId(req), "banner");
+
+    res.status(200).json({
+      message: "Banner removed successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,260 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { assertMatureAccess } from "@utils/contentFilter";
+import {
+  getMatureContentFilter,
+  getRequestContentAccess,
+} from "@middleware/contentFilterMiddleware";
+import {
+  updateProgressSchema,
+  continueReadingQuerySchema,
+} from "@schemas/progressSchema";
+
+/**
+ * Progress Controller
+ *
+ * Syncs the authenticated user's reading progress across devices under
+ * `/me/progress`. There is one progress row per series; conflicting writes
+ * from different devices are resolved by `readAt`, so the latest read wins
+ * even when an older write arrives late.
+ */
+
+const progressInclude = {
+  series: { select: { id: true, title: true, coverImage: true, nsfw: true } },
+  chapter: {
+    select: { id: true, number: true, title: true, language: true, nsfw: true },
+  },
+};
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Parses the `:seriesId` route parameter
+ */
+const parseSeriesId = (req: Request): number => {
+  const id = Number(req.params.seriesId);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "Series ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Records the last chapter and page read in a series
+ *
+ * Body:
+ * - chapterId: chapter being read
+ * - page: 0-based page index (default 0)
+ * - readAt (optional): when it was read on the device, capped at now
+ * - deviceId (optional): client-generated ID of the device
+ *
+ * The session of the access token is recorded alongside the device.
+ * If the stored progress was read later than `readAt`, nothing changes and
+ * the stored progress is returned with `applied: false`.
+ */
+export const updateProgress = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = updateProgressSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid progress data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { chapterId, page, deviceId } = parsed.data;
+
+    const chapter = await prisma.chapter.findUnique({
+      where: { id: chapterId },
+      select: {
+        id: true,
+        seriesId: true,
+        nsfw: true,
+        series: { select: { nsfw: true } },
+        _count: { select: { pages: true } },
+      },
+    });
+    if (!chapter) {
+      throw new AppError("Chapter not found", 404, ErrorAppCode.ChapterNotFound);
+    }
+    if (chapter.nsfw || chapter.series.nsfw) {
+      assertMatureAccess(getRequestContentAccess(req));
+    }
+    if (chapter._count.pages > 0 && page >= chapter._count.pages) {
+      throw new AppError(
+        "Page is out of range for this chapter",
+        400,
+        ErrorAppCode.BadInput
+      );
+    }
+
+    // Don't let a skewed device clock win every future conflict
+    const now = new Date();
+    const readAt =
+      parsed.data.readAt && parsed.data.readAt < now ? parsed.data.readAt : now;
+
+    const { seriesId } = chapter;
+    const data = {
+      chapterId,
+      page,
+      deviceId: deviceId ?? null,
+      sessionId: req.authSessionId ?? null,
+      readAt,
+    };
+
+    // Only overwrite progress read earlier; the condition is checked by
+    // the database, so concurrent writes from two devices can't both pass
+    const applyIfNewer = async (): Promise<boolean> => {
+      const { count } = await prisma.readingProgress.updateMany({
+        where: { userId, seriesId, readAt: { lte: readAt } },
+        data,
+      });
+      return count > 0;
+    };
+
+    let applied = await applyIfNewer();
+    if (!applied) {
+      try {
+        await prisma.readingProgress.create({
+          data: { ...data, userId, seriesId },
+        });
+        applied = true;
+      } catch (error) {
+        if (
+          !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+          error.code !== "P2002"
+        ) {
+          throw error;
+        }
+        // Progress exists: read later, or created by another device since
+        applied = await applyIfNewer();
+      }
+    }
+
+    const progress = await prisma.readingProgress.findUniqueOrThrow({
+      where: { userId_seriesId: { userId, seriesId } },
+      include: progressInclude,
+    });
+
+    res.status(200).json({ progress, applied });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns the "continue reading" feed, most recently read first
+ *
+ * Query parameters (optional):
+ * - limit: items per page (default 20, max 50)
+ * - cursor: ID of the last item of the previous page
+ */
+export const getContinueReading = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = continueReadingQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { limit, cursor } = parsed.data;
+
+    const matureFilter = getMatureContentFilter(req);
+    const progress = await prisma.readingProgress.findMany({
+      where: { userId, series: matureFilter, chapter: matureFilter },
+      orderBy: [{ readAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: progressInclude,
+    });
+
+    const hasMore = progress.length > limit;
+    const items = hasMore ? progress.slice(0, limit) : progress;
+
+    res.status(200).json({
+      progress: items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns the progress for a single series, or null if never read
+ */
+export const getSeriesProgress = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const seriesId = parseSeriesId(req);
+
+    const progress = await prisma.readingProgress.findUnique({
+      where: { userId_seriesId: { userId, seriesId } },
+      include: progressInclude,
+    });
+
+    if (progress && (progress.series.nsfw || progress.chapter.nsfw)) {
+      assertMatureAccess(getRequestContentAccess(req));
+    }
+
+    res.status(200).json({ progress });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Clears the progress for a series
+ */
+export const deleteSeriesProgress = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const seriesId = parseSeriesId(req);
+
+    await prisma.readingProgress.deleteMany({
+      where: { userId, seriesId },
+    });
+
+    res.status(200).json({
+      message: "Progress cleared successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,244 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { getMatureContentFilter } from "@middleware/contentFilterMiddleware";
+import {
+  buildPublicProfile,
+  findPublicProfileUser,
+  getProfilePrivacy,
+  getVisibleFields,
+  PublicProfileUser,
+} from "../services/publicProfileService";
+import { resolveUsernameRedirect } from "../services/usernameService";
+import { updateProfilePrivacySchema } from "@schemas/publicProfileSchema";
+import { listEntriesQuerySchema } from "@schemas/librarySchema";
+
+/**
+ * Public Profile Controller
+ *
+ * Serves other users' profiles under `/users/:username`, and lets users
+ * choose what their own profile shows under `/me/privacy`. Profiles are
+ * built by the public profile service, which never reads private fields.
+ *
+ * A username someone recently gave up redirects to their current one.
+ *
+ * Routes run after `optionalAuthenticate` and `filterMatureContent`, so
+ * some parts depend on whether the viewer is signed in, and mature series
+ * are hidden from viewers who cannot see them.
+ */
+
+/**
+ * Parses the `:shelfId` route parameter
+ */
+const parseShelfId = (req: Request): number => {
+  const id = Number(req.params.shelfId);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "Shelf ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Finds the user whose profile is requested
+ *
+ * If the username was changed recently, redirects to the same path under
+ * the new username instead, keeping the query string. The redirect is
+ * temporary because the old name is only held for a while.
+ *
+ * @param path - Path after the username, e.g. `/shelves/3`
+ * @returns The user, or null once redirected
+ * @throws AppError (404) if no user has or recently had the username
+ */
+const findUserOrRedirect = async (
+  req: Request,
+  res: Response,
+  path = ""
+): Promise<PublicProfileUser | null> => {
+  const user = await findPublicProfileUser(req.params.username);
+  if (user) return user;
+
+  const current = await resolveUsernameRedirect(req.params.username);
+  if (!current) {
+    throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+  }
+
+  const queryStart = req.originalUrl.indexOf("?");
+  const query = queryStart === -1 ? "" : req.originalUrl.slice(queryStart);
+  res.redirect(302, `${req.baseUrl}/${encodeURIComponent(current)}${path}${query}`);
+  return null;
+};
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Returns a user's public profile
+ *
+ * Fields hidden from the viewer are null; the shelves and stats sections
+ * are left out entirely when hidden.
+ */
+export const getPublicProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await findUserOrRedirect(req, res);
+    if (!user) return;
+
+    const profile = await buildPublicProfile(
+      user,
+      req.user,
+      getMatureContentFilter(req)
+    );
+
+    res.status(200).json({ profile });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists the entries of one of a user's public shelves in order
+ *
+ * Query parameters (optional):
+ * - page, limit: pagination (default 1, 50; limit max 100)
+ */
+export const getPublicShelfEntries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const shelfId = parseShelfId(req);
+    const parsed = listEntriesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit } = parsed.data;
+
+    const user = await findUserOrRedirect(req, res, `/shelves/${shelfId}`);
+    if (!user) return;
+
+    const isOwner = req.user?.id === user.id;
+
+    const shelf = await prisma.libraryShelf.findFirst({
+      where: { id: shelfId, userId: user.id },
+      select: { id: true, name: true, kind: true, isPublic: true },
+    });
+    // Hidden shelves look the same as missing ones
+    if (
+      !shelf ||
+      !getVisibleFields(user, req.user).library ||
+      (!shelf.isPublic && !isOwner)
+    ) {
+      throw new AppError("Shelf not found", 404, ErrorAppCode.ShelfNotFound);
+    }
+
+    const where = { shelfId: shelf.id, series: getMatureContentFilter(req) };
+    const [entries, total] = await prisma.$transaction([
+      prisma.libraryEntry.findMany({
+        where,
+        orderBy: [{ position: "asc" }, { id: "asc" }],
+        skip: (page - 1) * limit,
+        take: limit,
+        select: {
+          position: true,
+          series: {
+            select: {
+              id: true,
+              title: true,
+              coverImage: true,
+              status: true,
+              nsfw: true,
+            },
+          },
+        },
+      }),
+      prisma.libraryEntry.count({ where }),
+    ]);
+
+    res.status(200).json({
+      shelf,
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns who can see each part of the user's public profile
+ */
+export const getProfilePrivacySettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const privacy = await getProfilePrivacy(getUserId(req));
+
+    res.status(200).json({ privacy });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Changes who can see parts of the user's public profile
+ *
+ * Body (at least one), each PUBLIC, USERS (signed in) or PRIVATE:
+ * - bio, avatar, banner, colorTheme, joinedAt
+ * - library: the shelves marked public
+ * - stats: counts of series per status shelf
+ */
+export const updateProfilePrivacySettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const parsed = updateProfilePrivacySchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid privacy data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    await prisma.profilePrivacy.upsert({
+      where: { userId },
+      update: parsed.data,
+      create: { userId, ...parsed.data },
+    });
+
+    res.status(200).json({ privacy: await getProfilePrivacy(userId) });
+  } catch (error) {
+    next(error);
+  }
+};
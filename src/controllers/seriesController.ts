@@ -0,0 +1,235 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import {
+  createSeriesSchema,
+  updateSeriesSchema,
+  listSeriesQuerySchema,
+  withNSFWRating,
+} from "@schemas/seriesSchema";
+import { assertMatureAccess } from "@utils/contentFilter";
+import {
+  getMatureContentFilter,
+  getRequestContentAccess,
+} from "@middleware/contentFilterMiddleware";
+
+/**
+ * Series Controller
+ *
+ * Handles the manhwa series catalog:
+ * - Public listing with search, filters and pagination
+ * - Public detail lookup
+ * - Create/update/delete, gated to editors and above at the router
+ *
+ * Public routes run after `filterMatureContent`; NSFW series are hidden
+ * from lists and refused on lookup for requesters who cannot view them.
+ */
+
+/**
+ * Parses the `:id` route parameter into a series ID
+ */
+const parseSeriesId = (req: Request): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError(
+      "Series ID is not a valid number",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+  return id;
+};
+
+/**
+ * Throws a 404 if no series exists with the given ID
+ */
+const ensureSeriesExists = async (id: number): Promise<void> => {
+  const exists = await prisma.series.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!exists) {
+    throw new AppError("Series not found", 404, ErrorAppCode.SeriesNotFound);
+  }
+};
+
+/**
+ * Lists series
+ *
+ * Query parameters (all optional):
+ * - page, limit: pagination (default 1, 20; limit max 100)
+ * - q: matches title (case-insensitive) or an exact alternate title
+ * - status, genre, tag: filters
+ * - sort (title | createdAt | updatedAt), order (asc | desc)
+ */
+export const listSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = listSeriesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid query parameters",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+    const { page, limit, q, status, genre, tag, sort, order } = parsed.data;
+
+    const where: Prisma.SeriesWhereInput = {
+      ...getMatureContentFilter(req),
+      status,
+      genres: genre ? { has: genre } : undefined,
+      tags: tag ? { has: tag } : undefined,
+      OR: q
+        ? [
+            { title: { contains: q, mode: "insensitive" } },
+            { alternateTitles: { has: q } },
+          ]
+        : undefined,
+    };
+
+    const [series, total] = await prisma.$transaction([
+      prisma.series.findMany({
+        where,
+        orderBy: { [sort]: order },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.series.count({ where }),
+    ]);
+
+    res.status(200).json({
+      series,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Returns a single series by ID
+ */
+export const getSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseSeriesId(req);
+    const series = await prisma.series.findUnique({ where: { id } });
+
+    if (!series) {
+      throw new AppError("Series not found", 404, ErrorAppCode.SeriesNotFound);
+    }
+
+    if (series.nsfw) {
+      assertMatureAccess(getRequestContentAccess(req));
+    }
+
+    res.status(200).json({ series });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Creates a new series
+ *
+ * A rating of EROTICA or PORNOGRAPHIC always marks the series as NSFW.
+ */
+export const createSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const parsed = createSeriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid series data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const series = await prisma.series.create({ data: parsed.data });
+
+    res.status(201).json({ series });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Updates any part of a series
+ */
+export const updateSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseSeriesId(req);
+    const parsed = updateSeriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid series data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const existing = await prisma.series.findUnique({
+      where: { id },
+      select: { contentRating: true },
+    });
+    if (!existing) {
+      throw new AppError("Series not found", 404, ErrorAppCode.SeriesNotFound);
+    }
+
+    // The stored rating still decides `nsfw` when only the flag is sent
+    const series = await prisma.series.update({
+      where: { id },
+      data: withNSFWRating({ contentRating: existing.contentRating, ...parsed.data }),
+    });
+
+    res.status(200).json({ series });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deletes a series
+ */
+export const deleteSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = parseSeriesId(req);
+    await ensureSeriesExists(id);
+
+    await prisma.series.delete({ where: { id } });
+
+    res.status(200).json({
+      message: "Series deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
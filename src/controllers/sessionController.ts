@@ -0,0 +1,150 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import * as tokenService from "../services/tokenService";
+import { sessionIdSchema, renameSessionSchema } from "@schemas/sessionSchema";
+
+/**
+ * Session Controller
+ *
+ * Lets the authenticated user see and revoke where they are signed in,
+ * under `/me/sessions`. A session is a chain of rotated refresh tokens;
+ * the caller's own session comes from the access token.
+ */
+
+/**
+ * Returns the authenticated user's ID
+ */
+const getUserId = (req: Request): number => {
+  if (!req.user) {
+    throw new AppError("User not authenticated", 401, ErrorAppCode.Unauthorised);
+  }
+  return req.user.id;
+};
+
+/**
+ * Parses the `:sessionId` route parameter
+ */
+const parseSessionId = (req: Request): string => {
+  const parsed = sessionIdSchema.safeParse(req.params.sessionId);
+  if (!parsed.success) {
+    throw new AppError("Session ID is not valid", 400, ErrorAppCode.BadInput);
+  }
+  return parsed.data;
+};
+
+/**
+ * Lists the user's active sessions, flagging the current one
+ */
+export const listSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const sessions = await tokenService.listSessions(userId);
+
+    res.status(200).json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.sessionId === req.authSessionId,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Renames a session's device label
+ */
+export const renameSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const sessionId = parseSessionId(req);
+    const parsed = renameSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid session data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
+
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { userId, sessionId },
+      data: { deviceLabel: parsed.data.deviceLabel },
+    });
+    if (count === 0) {
+      throw new AppError("Session not found", 404, ErrorAppCode.SessionNotFound);
+    }
+
+    res.status(200).json({
+      message: "Session renamed successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revokes one session, signing that device out on its next refresh
+ */
+export const revokeSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    const sessionId = parseSessionId(req);
+
+    const count = await tokenService.revokeSession(userId, sessionId);
+    if (count === 0) {
+      throw new AppError("Session not found", 404, ErrorAppCode.SessionNotFound);
+    }
+
+    res.status(200).json({
+      message: "Session revoked successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revokes every session except the caller's ("log out everywhere else")
+ */
+export const revokeOtherSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = getUserId(req);
+    if (!req.authSessionId) {
+      throw new AppError(
+        "Current session unknown, sign in again to use this feature",
+        400,
+        ErrorAppCode.BadInput
+      );
+    }
+
+    const revoked = await tokenService.revokeOtherSessions(
+      userId,
+      req.authSessionId
+    );
+
+    res.status(200).json({
+      revoked,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,24 +1,39 @@
 import { Request, Response, NextFunction } from "express";
-import { prisma } from "@libs/prisma";
-import { parsePrismaError, AppError } from "@utils/errorHandler";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
 import { waitlistEntrySchema } from "@schemas/waitlistEntrySchema";
+import { joinWaitlist } from "../services/waitlistService";
 
+/**
+ * Adds the sender to the waitlist
+ *
+ * Body:
+ * - firstName, email
+ * - secondName, message (optional)
+ *
+ * Responds 409 if the email is already on the waitlist.
+ */
 export const createWaitlistEntry = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // parse with zod
-    const parsed = waitlistEntrySchema.parse(req.body);
+    const parsed = waitlistEntrySchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(
+        "Invalid waitlist data",
+        400,
+        ErrorAppCode.ValidationFailed,
+        parsed.error.flatten()
+      );
+    }
 
-    // create entry
-    const waitlistEntry = await prisma.waitlistEntry.create({
-      data: parsed,
-    });
+    await joinWaitlist(parsed.data);
 
-    res.status(201).json(waitlistEntry);
-  } catch (err) {
-    next(parsePrismaError(err));
+    res.status(201).json({
+      message: "Added to the waitlist",
+    });
+  } catch (error) {
+    next(error);
   }
 };
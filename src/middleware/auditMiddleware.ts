@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from "express";
+import { AuditEntry, recordAudit } from "../services/auditService";
+
+/**
+ * Audit Middleware
+ *
+ * Records every successful mutating request on the routes it guards in the
+ * audit log. Controllers describe their change with `describeAudit` (action,
+ * target, before/after snapshots); requests they don't describe are still
+ * logged with the method, path, route params and the names of the body
+ * fields, so new admin routes are audited by default without their values
+ * (passwords, emails, birthdays, ...) ending up in the log.
+ *
+ * Entries are written when a 2xx response is about to be sent, and the
+ * response waits for them. The change has already been made by then, so
+ * if the entry cannot be written the failure is logged and the response
+ * is sent unchanged.
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      auditEntry?: AuditEntry;
+    }
+  }
+}
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+const isPlainBody = (body: unknown): body is Record<string, unknown> =>
+  typeof body === "object" && body !== null && !Array.isArray(body);
+
+/**
+ * Describes the change made by the current request for the audit log
+ *
+ * @param req - Express request object
+ * @param entry - Action, target and before/after snapshots
+ */
+export const describeAudit = (req: Request, entry: AuditEntry): void => {
+  req.auditEntry = entry;
+};
+
+/**
+ * Middleware to audit mutating requests
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export const auditMutations = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!MUTATING_METHODS.has(req.method)) {
+    return next();
+  }
+
+  const send = res.send.bind(res);
+  let audited = false;
+
+  res.send = ((body?: unknown) => {
+    if (audited || res.statusCode < 200 || res.statusCode >= 300) {
+      return send(body);
+    }
+    audited = true;
+
+    const entry: AuditEntry = req.auditEntry ?? {
+      action: `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`,
+      targetType: "request",
+      targetId: Object.values(req.params ?? {}).join("/") || null,
+      after: isPlainBody(req.body) ? { fields: Object.keys(req.body) } : undefined,
+    };
+
+    recordAudit(req, entry)
+      .catch((error) =>
+        console.error(
+          `Failed to audit ${entry.action} (${entry.targetType} ${entry.targetId ?? "-"}):`,
+          error
+        )
+      )
+      .finally(() => send(body));
+    return res;
+  }) as Response["send"];
+
+  next();
+};
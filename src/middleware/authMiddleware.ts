@@ -2,7 +2,9 @@ import { Request, Response, NextFunction } from "express";
 import { verifyAccessToken, TokenPayload } from "@utils/jwtUtils";
 import { AppError, ErrorAppCode } from "@utils/errorHandler";
 import { isRoleAllowed } from "@utils/roleUtils";
-import { prisma } from "@libs/prisma"; // Import Prisma client
+import { isUserSuspended } from "@utils/userUtils";
+import { getAuthUser, isSessionActive } from "../services/authStateService";
+import { hasPermissions } from "../services/permissionService";
 import { User as PrismaUser, Role } from "@prisma/client"; // Import Prisma types
 
 /**
@@ -11,6 +13,7 @@ import { User as PrismaUser, Role } from "@prisma/client"; // Import Prisma type
  * This module provides middleware functions for:
  * - Protecting routes from unauthorized access
  * - Verifying user roles for access control including role hierarchy
+ * - Verifying named permissions granted through roles and per-user overrides
  * - Extracting user information from JWT tokens
  *
  * Implementation follows SOLID principles with single responsibility
@@ -29,12 +32,100 @@ declare global {
 
     // Augment the Request interface - it already has user?: User
     // No need to redeclare user here if we correctly augment Express.User
-    // interface Request {
-    //   user?: User;
-    // }
+    interface Request {
+      // Refresh token session of the access token, if it carries one
+      authSessionId?: string;
+    }
   }
 }
 
+// Response header telling the client its access token expired and should be refreshed
+export const TOKEN_EXPIRED_HEADER = "X-Token-Expired";
+
+type RequestAuthResult =
+  | { status: "anonymous" }
+  | { status: "expired"; error: AppError }
+  | { status: "invalid"; error: AppError }
+  | { status: "authenticated"; user: Express.User; sessionId?: string };
+
+/**
+ * Resolves the user behind the request's bearer token
+ *
+ * Shared by `authenticate` and `optionalAuthenticate`, which only differ
+ * in how they treat anything other than an authenticated user.
+ *
+ * @param req - Express request object
+ * @returns The authenticated user, or why there is none
+ */
+const resolveRequestUser = async (
+  req: Request
+): Promise<RequestAuthResult> => {
+  // Get token from Authorization header
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return { status: "anonymous" };
+  }
+
+  // Extract and verify token
+  const token = authHeader.split(" ")[1];
+  let decodedToken: TokenPayload;
+  try {
+    decodedToken = verifyAccessToken(token);
+  } catch (error) {
+    if (error instanceof AppError && error.appCode === ErrorAppCode.TokenExpired) {
+      return { status: "expired", error };
+    }
+    if (error instanceof AppError && error.statusCode === 401) {
+      return { status: "invalid", error };
+    }
+    throw error;
+  }
+
+  // Fetch user including their role (briefly cached)
+  const user = await getAuthUser(decodedToken.userId);
+
+  if (!user) {
+    return {
+      status: "invalid",
+      error: new AppError(
+        "User associated with token not found",
+        401,
+        ErrorAppCode.Unauthorised
+      ),
+    };
+  }
+
+  // Reject tokens issued before a role change, suspension or session revocation
+  const revoked =
+    (decodedToken.tokenVersion ?? 0) !== user.tokenVersion ||
+    (decodedToken.sessionId !== undefined &&
+      !(await isSessionActive(decodedToken.sessionId)));
+
+  if (isUserSuspended(user)) {
+    return {
+      status: "invalid",
+      error: new AppError("Account suspended", 403, ErrorAppCode.AccountSuspended),
+    };
+  }
+
+  if (revoked) {
+    return {
+      status: "invalid",
+      error: new AppError(
+        "Access token has been revoked",
+        401,
+        ErrorAppCode.TokenRevoked
+      ),
+    };
+  }
+
+  return {
+    status: "authenticated",
+    user,
+    sessionId: decodedToken.sessionId,
+  };
+};
+
 /**
  * Middleware to protect routes requiring authentication
  *
@@ -51,49 +142,29 @@ export const authenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    // Get token from Authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      // Use return to stop execution and avoid calling next(error) implicitly
-      return next(
-        new AppError(
-          "Authorization header missing or invalid",
-          401,
-          ErrorAppCode.Unauthorised
-        )
-      );
-    }
-
-    // Extract and verify token
-    const token = authHeader.split(" ")[1];
-    const decodedToken = verifyAccessToken(token);
-
-    // Fetch user from database including their role
-    const user = await prisma.user.findUnique({
-      where: { id: decodedToken.userId },
-      include: { role: true }, // Include the related Role data
-    });
+    const result = await resolveRequestUser(req);
 
-    if (!user) {
-      // Use return to stop execution
-      return next(
-        new AppError(
-          "User associated with token not found",
-          401,
-          ErrorAppCode.Unauthorised
-        )
-      );
+    switch (result.status) {
+      case "anonymous":
+        return next(
+          new AppError(
+            "Authorization header missing or invalid",
+            401,
+            ErrorAppCode.Unauthorised
+          )
+        );
+      case "expired":
+        res.setHeader(TOKEN_EXPIRED_HEADER, "true");
+        return next(result.error);
+      case "invalid":
+        return next(result.error);
     }
 
-    // Assign the fetched user (which matches the augmented Express.User type)
-    req.user = user as Express.User;
+    req.user = result.user;
+    req.authSessionId = result.sessionId;
     next();
   } catch (error) {
-    // Handle token verification errors (expired, invalid)
-    if (error instanceof AppError && error.statusCode === 401) {
-      return next(error);
-    }
-    // Handle other potential errors during DB fetch or processing
+    // Handle potential errors during DB fetch or processing
     next(
       new AppError(
         "Authentication failed",
@@ -127,8 +198,8 @@ export const requireExactRoles = (
           ErrorAppCode.Unauthorised
         );
       }
-      // Access role name
-      if (!roles.includes(req.user.role.name)) {
+      // Access role name (compared case-insensitively)
+      if (!isRoleAllowed(req.user.role.name, roles)) {
         throw new AppError(
           "Insufficient permissions",
           403,
@@ -179,40 +250,84 @@ export const requireRoles = (
   };
 };
 
+/**
+ * Factory function to create middleware for permission-based access control
+ *
+ * This middleware grants access if the user has every one of the specified
+ * permissions, through their role or a per-user grant, and none of them
+ * has been denied to the user.
+ *
+ * @param permissions - Permission keys required to access the route
+ * @returns Middleware function for permission verification
+ */
+export const requirePermission = (
+  ...permissions: string[]
+): ((req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError(
+          "User not authenticated",
+          401,
+          ErrorAppCode.Unauthorised
+        );
+      }
+      if (!(await hasPermissions(req.user, permissions))) {
+        throw new AppError(
+          "Insufficient permissions",
+          403,
+          ErrorAppCode.InsufficientPermissions,
+          { required: permissions }
+        );
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 /**
  * Optional authentication middleware
  *
- * Attempts to authenticate the user but continues even if authentication fails.
- * Useful for routes that can be accessed by both authenticated and unauthenticated users.
+ * Attaches the user (with role) like `authenticate` when a valid token is
+ * sent, but continues as anonymous otherwise. Useful for routes that can be
+ * accessed by both authenticated and unauthenticated users.
+ *
+ * An expired token is not an error here, but the `X-Token-Expired` header
+ * is set so the client knows to refresh rather than treat itself as signed out.
  *
  * @param req - Express request object
  * @param res - Express response object
  * @param next - Express next function
  */
-export const optionalAuthenticate = (
+export const optionalAuthenticate = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return next();
+    const result = await resolveRequestUser(req);
+
+    if (result.status === "expired") {
+      res.setHeader(TOKEN_EXPIRED_HEADER, "true");
     }
-    const token = authHeader.split(" ")[1];
-    const decodedToken = verifyAccessToken(token);
 
-    // If token is valid, potentially fetch user, but for now, just attach payload
-    // This part might need the DB fetch like in authenticate if full user object is needed
-    // For simplicity, let's just attach the basic payload if verified
-    // This won't match the req.user type fully, but avoids breaking optional logic
-    // req.user = decodedToken; // This would cause a type error now
-    // To properly fix, optionalAuthenticate would need to become async and fetch user+role
-    // For now, let's skip attaching user here to avoid complexity/errors
+    if (result.status === "authenticated") {
+      req.user = result.user;
+      req.authSessionId = result.sessionId;
+    }
 
     next();
   } catch (error) {
-    next();
+    next(
+      new AppError(
+        "Authentication failed",
+        500,
+        ErrorAppCode.Unknown,
+        error instanceof Error ? error.message : "Unknown error"
+      )
+    );
   }
 };
 
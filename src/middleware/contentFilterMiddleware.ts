@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import {
+  ContentAccess,
+  getContentAccess,
+  assertMatureAccess,
+} from "@utils/contentFilter";
+
+/**
+ * Content Filter Middleware
+ *
+ * This module provides middleware functions for:
+ * - Resolving the requester's NSFW band and attaching it to the request
+ * - Gating routes that only serve mature content
+ * - Building query filters that exclude mature content
+ *
+ * Works with both `authenticate` and `optionalAuthenticate`; requesters
+ * without a user are treated as band 1.
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      contentAccess?: ContentAccess;
+    }
+  }
+}
+
+/**
+ * Middleware to resolve the requester's content access
+ *
+ * Attaches the band and whether mature content is viewable to
+ * `req.contentAccess`. Mature items are then excluded from list queries
+ * via `getMatureContentFilter`.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export const filterMatureContent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    req.contentAccess = await getContentAccess(req.user);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Factory function to create middleware for routes serving mature content
+ *
+ * Grants access only if the requester may view mature content and their
+ * band is at least `minBand`.
+ *
+ * @param minBand - Minimum band required (default 2)
+ * @returns Middleware function for content band verification
+ */
+export const requireContentBand = (
+  minBand: 2 | 3 = 2
+): ((req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const access = await getContentAccess(req.user);
+      req.contentAccess = access;
+
+      assertMatureAccess(access);
+
+      if (access.band < minBand) {
+        throw new AppError(
+          "This feature is not available in your country",
+          403,
+          ErrorAppCode.CountryLimited
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Returns the content access resolved by `filterMatureContent`
+ *
+ * Falls back to no mature access if the middleware did not run.
+ *
+ * @param req - Express request object
+ * @returns Content access for the requester
+ */
+export const getRequestContentAccess = (req: Request): ContentAccess =>
+  req.contentAccess ?? {
+    band: 1,
+    canViewMature: false,
+    denial: {
+      statusCode: 403,
+      reason: ErrorAppCode.NSFWDisabled,
+      message: "Mature content is not available",
+    },
+  };
+
+/**
+ * Returns a Prisma `where` fragment excluding mature items when the
+ * requester cannot view them
+ *
+ * Works for any model with an `nsfw` flag.
+ *
+ * @param req - Express request object
+ * @returns `{ nsfw: false }` or an empty filter
+ */
+export const getMatureContentFilter = (req: Request): { nsfw?: false } =>
+  getRequestContentAccess(req).canViewMature ? {} : { nsfw: false };
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from "express";
+
+/**
+ * Invite Middleware
+ *
+ * Sign-up happens in the Google OAuth callback, after a round trip to
+ * Google, so the invite code given when sign-in starts is kept in the
+ * session until then.
+ */
+
+declare module "express-session" {
+  interface SessionData {
+    inviteCode?: string;
+  }
+}
+
+/**
+ * Remembers the `invite` query parameter for the OAuth callback
+ *
+ * Starting a sign-in without one forgets any earlier code.
+ */
+export const rememberInviteCode = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { invite } = req.query;
+
+  if (typeof invite === "string" && invite.length > 0 && invite.length <= 64) {
+    req.session.inviteCode = invite;
+  } else if (req.session.inviteCode) {
+    delete req.session.inviteCode;
+  }
+  next();
+};
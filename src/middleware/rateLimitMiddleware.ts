@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { AppError, ErrorAppCode } from "../utils/errorHandler";
+import { getClientIp } from "../utils/requestUtils";
+import { TtlCache } from "../utils/ttlCache";
+
+/**
+ * Rate Limit Middleware
+ *
+ * Fixed-window request limits, counted per client in this process. With
+ * several instances behind a load balancer each enforces its own limit,
+ * which is fine for slowing down enumeration but not for hard quotas.
+ */
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number; // requests per window
+  // Defaults to the signed-in user, or the client IP
+  key?: (req: Request) => string;
+}
+
+const defaultKey = (req: Request): string =>
+  req.user ? `user:${req.user.id}` : `ip:${getClientIp(req)}`;
+
+/**
+ * Creates middleware allowing `max` requests per `windowMs` per client
+ *
+ * Over the limit, responds 429 with a `Retry-After` header.
+ *
+ * @param options - Window, limit and client key
+ * @returns Express middleware
+ */
+export const rateLimit = ({
+  windowMs,
+  max,
+  key = defaultKey,
+}: RateLimitOptions): RequestHandler => {
+  const windows = new TtlCache<string, { count: number; resetAt: number }>(
+    windowMs
+  );
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const clientKey = key(req);
+    const now = Date.now();
+
+    let window = windows.get(clientKey);
+    if (!window) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(clientKey, window);
+    }
+    window.count++;
+
+    if (window.count > max) {
+      const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+      res.setHeader("Retry-After", String(retryAfter));
+      return next(
+        new AppError("Too many requests, try again later", 429, ErrorAppCode.RateLimited, {
+          retryAfter,
+        })
+      );
+    }
+    next();
+  };
+};
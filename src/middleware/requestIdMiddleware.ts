@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+
+/**
+ * Request ID Middleware
+ *
+ * Gives every request an ID so log lines and audit entries can be tied
+ * back to it. A well-formed `X-Request-Id` from a proxy is kept; otherwise
+ * a new UUID is generated. The ID is echoed in the response header.
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Accept proxy-generated IDs, but nothing that could pollute logs
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+
+/**
+ * Middleware to assign a request ID
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export const assignRequestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  req.requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+
+  res.setHeader(REQUEST_ID_HEADER, req.requestId);
+  next();
+};
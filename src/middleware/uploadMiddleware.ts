@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import multer from "multer";
+import { AppError, ErrorAppCode } from "../utils/errorHandler";
+import {
+  PROFILE_IMAGE_KINDS,
+  ProfileImageKindName,
+} from "../services/imageService";
+
+/**
+ * Upload Middleware
+ *
+ * Parses a multipart form holding a single image into `req.file`, kept in
+ * memory for processing. Only the size is checked here; the content is
+ * validated by the image service.
+ */
+
+// Form field the image must be sent in
+export const IMAGE_FIELD = "image";
+
+/**
+ * Creates middleware accepting one profile image, up to the size limit of
+ * its kind
+ *
+ * @param kind - avatar or banner
+ * @returns Express middleware
+ */
+export const uploadProfileImage = (kind: ProfileImageKindName): RequestHandler => {
+  const { maxBytes } = PROFILE_IMAGE_KINDS[kind];
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1, fields: 5 },
+  }).single(IMAGE_FIELD);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === "LIMIT_FILE_SIZE") {
+          return next(
+            new AppError(
+              `Image cannot exceed ${Math.floor(maxBytes / (1024 * 1024))} MB`,
+              413,
+              ErrorAppCode.FileTooLarge
+            )
+          );
+        }
+        return next(
+          new AppError(error.message, 400, ErrorAppCode.BadInput, {
+            field: error.field ?? null,
+          })
+        );
+      }
+      if (error) return next(error);
+
+      if (!req.file) {
+        return next(
+          new AppError(
+            `Send the image as the "${IMAGE_FIELD}" field of a multipart form`,
+            400,
+            ErrorAppCode.BadInput
+          )
+        );
+      }
+      next();
+    });
+  };
+};
@@ -3,6 +3,7 @@ import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { prisma } from "@libs/prisma";
 import { parsePrismaError, AppError, ErrorAppCode } from "@utils/errorHandler";
 import type { SessionUser } from "@root/types/sessionUser";
+import { signUpUser } from "../services/waitlistService";
 
 // Add log here
 console.log(
@@ -30,40 +31,53 @@ passport.use(
       clientID: process.env.GOOGLE_CLIENT_ID!,
       clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
       callbackURL: process.env.GOOGLE_CALLBACK_URL!,
+      passReqToCallback: true,
     },
-    async (_, __, profile, done) => {
+    async (req, _, __, profile, done) => {
       const email = profile.emails?.[0]?.value;
       const googleId = profile.id;
 
       if (!email) return done(null, false);
 
-      let user = await prisma.user.findUnique({
-        where: { googleId },
-        include: { role: true },
-      });
+      // Invite code remembered when the sign-in started, used once
+      const inviteCode = req.session.inviteCode;
+      delete req.session.inviteCode;
 
-      if (!user) {
-        const firstName = profile.name?.givenName || "User";
-        const secondName = profile.name?.familyName;
-
-        const defaultRoleId = 4;
-
-        user = await prisma.user.upsert({
-          where: { email },
-          update: { googleId },
-          create: {
-            email,
-            firstName,
-            secondName,
-            googleId,
-            profilePic: profile.photos?.[0]?.value,
-            roleId: defaultRoleId,
-          },
+      try {
+        let user = await prisma.user.findUnique({
+          where: { googleId },
           include: { role: true },
         });
-      }
 
-      return done(null, user);
+        if (!user) {
+          // Existing accounts (e.g. created before Google sign-in) are linked
+          const existing = await prisma.user.findUnique({
+            where: { email },
+            select: { id: true },
+          });
+
+          user = existing
+            ? await prisma.user.update({
+                where: { id: existing.id },
+                data: { googleId },
+                include: { role: true },
+              })
+            : await signUpUser(
+                {
+                  email,
+                  googleId,
+                  firstName: profile.name?.givenName || "User",
+                  secondName: profile.name?.familyName,
+                  profilePic: profile.photos?.[0]?.value,
+                },
+                inviteCode
+              );
+        }
+
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
     }
   )
 );
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  listVerificationRequests,
+  getVerificationRequest,
+  approveVerificationRequest,
+  rejectVerificationRequest,
+} from "@controllers/adminAgeVerificationController";
+
+const router = Router();
+
+const canReview = requirePermission(PERMISSIONS.AGE_VERIFICATION_REVIEW.key);
+
+router.get("/", canReview, listVerificationRequests);
+router.get("/:id", canReview, getVerificationRequest);
+router.post("/:id/approve", canReview, approveVerificationRequest);
+router.post("/:id/reject", canReview, rejectVerificationRequest);
+
+export default router;
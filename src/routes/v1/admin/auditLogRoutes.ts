@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import { listAuditLog } from "@controllers/adminAuditController";
+
+const router = Router();
+
+router.get("/", requirePermission(PERMISSIONS.AUDIT_LOG_READ.key), listAuditLog);
+
+export default router;
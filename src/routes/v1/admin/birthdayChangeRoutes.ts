@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  listBirthdayChanges,
+  getBirthdayChange,
+  approveBirthdayChange,
+  rejectBirthdayChange,
+} from "@controllers/adminBirthdayChangeController";
+
+const router = Router();
+
+const canReview = requirePermission(PERMISSIONS.BIRTHDAY_CHANGE_REVIEW.key);
+
+router.get("/", canReview, listBirthdayChanges);
+router.get("/:id", canReview, getBirthdayChange);
+router.post("/:id/approve", canReview, approveBirthdayChange);
+router.post("/:id/reject", canReview, rejectBirthdayChange);
+
+export default router;
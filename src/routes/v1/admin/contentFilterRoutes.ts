@@ -1,15 +1,32 @@
 // routes/admin/contentFilterRoutes.ts
 import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
 import {
   getNSFWPolicy,
+  updateNSFWPolicy,
+  dryRunNSFWPolicy,
   addRestrictedCountry,
+  importRestrictedCountries,
   removeRestrictedCountry,
+  setCountryMinimumAge,
+  removeCountryMinimumAge,
 } from "@controllers/contentFilterController";
 
 const router = Router();
 
-router.get("/nsfw-policy", getNSFWPolicy);
-router.post("/restricted-countries", addRestrictedCountry);
-router.delete("/restricted-countries/:countryCode", removeRestrictedCountry);
+const canRead = requirePermission(PERMISSIONS.CONTENT_FILTER_READ.key);
+const canWrite = requirePermission(PERMISSIONS.CONTENT_FILTER_WRITE.key);
+
+router.get("/nsfw-policy", canRead, getNSFWPolicy);
+router.put("/nsfw-policy", canWrite, updateNSFWPolicy);
+router.post("/nsfw-policy/dry-run", canRead, dryRunNSFWPolicy);
+
+router.post("/restricted-countries", canWrite, addRestrictedCountry);
+router.put("/restricted-countries", canWrite, importRestrictedCountries);
+router.delete("/restricted-countries/:countryCode", canWrite, removeRestrictedCountry);
+
+router.put("/minimum-ages/:countryCode", canWrite, setCountryMinimumAge);
+router.delete("/minimum-ages/:countryCode", canWrite, removeCountryMinimumAge);
 
 export default router;
@@ -1,11 +1,29 @@
 import { Router } from "express";
-import { authenticate, requireExactRoles } from "@middleware/authMiddleware";
+import { authenticate } from "@middleware/authMiddleware";
+import { auditMutations } from "@middleware/auditMiddleware";
 import contentFilterRoutes from "./contentFilterRoutes";
+import userRoutes from "./userRoutes";
+import roleRoutes from "./roleRoutes";
+import permissionRoutes from "./permissionRoutes";
+import auditLogRoutes from "./auditLogRoutes";
+import ageVerificationRoutes from "./ageVerificationRoutes";
+import birthdayChangeRoutes from "./birthdayChangeRoutes";
+import reservedUsernameRoutes from "./reservedUsernameRoutes";
+import waitlistRoutes from "./waitlistRoutes";
 
 const router = Router();
 
-router.use(authenticate, requireExactRoles(["admin"]));
+// Each route requires its own permission; every change is audited
+router.use(authenticate, auditMutations);
 
 router.use("/content-filter", contentFilterRoutes);
+router.use("/users", userRoutes);
+router.use("/roles", roleRoutes);
+router.use("/permissions", permissionRoutes);
+router.use("/audit-log", auditLogRoutes);
+router.use("/age-verification", ageVerificationRoutes);
+router.use("/birthday-changes", birthdayChangeRoutes);
+router.use("/reserved-usernames", reservedUsernameRoutes);
+router.use("/waitlist", waitlistRoutes);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import { listPermissions } from "@controllers/adminRoleController";
+
+const router = Router();
+
+router.get("/", requirePermission(PERMISSIONS.PERMISSIONS_MANAGE.key), listPermissions);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  listReservedUsernames,
+  createReservedUsername,
+  updateReservedUsername,
+  deleteReservedUsername,
+} from "@controllers/adminReservedUsernameController";
+
+const router = Router();
+
+const canManage = requirePermission(PERMISSIONS.USERNAMES_MANAGE.key);
+
+router.get("/", canManage, listReservedUsernames);
+router.post("/", canManage, createReservedUsername);
+router.put("/:id", canManage, updateReservedUsername);
+router.delete("/:id", canManage, deleteReservedUsername);
+
+export default router;
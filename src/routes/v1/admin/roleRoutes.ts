@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  listRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+  setRolePermissions,
+} from "@controllers/adminRoleController";
+
+const router = Router();
+
+const canManageRoles = requirePermission(PERMISSIONS.ROLES_MANAGE.key);
+
+router.get("/", canManageRoles, listRoles);
+router.post("/", canManageRoles, createRole);
+router.put("/:id", canManageRoles, updateRole);
+router.delete("/:id", canManageRoles, deleteRole);
+
+router.put(
+  "/:id/permissions",
+  requirePermission(PERMISSIONS.PERMISSIONS_MANAGE.key),
+  setRolePermissions
+);
+
+export default router;
@@ -0,0 +1,56 @@
+import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  listUsers,
+  getUser,
+  changeUserRole,
+  forceLogoutUser,
+  suspendUser,
+  unsuspendUser,
+  resetUserProfile,
+  getUserPermissions,
+  setUserPermission,
+  removeUserPermission,
+} from "@controllers/adminUserController";
+
+const router = Router();
+
+const {
+  USERS_READ,
+  USERS_CHANGE_ROLE,
+  USERS_LOGOUT,
+  USERS_SUSPEND,
+  USERS_RESET_PROFILE,
+  PERMISSIONS_MANAGE,
+} = PERMISSIONS;
+
+router.get("/", requirePermission(USERS_READ.key), listUsers);
+router.get("/:id", requirePermission(USERS_READ.key), getUser);
+router.put("/:id/role", requirePermission(USERS_CHANGE_ROLE.key), changeUserRole);
+router.post("/:id/logout", requirePermission(USERS_LOGOUT.key), forceLogoutUser);
+router.post("/:id/suspend", requirePermission(USERS_SUSPEND.key), suspendUser);
+router.post("/:id/unsuspend", requirePermission(USERS_SUSPEND.key), unsuspendUser);
+router.post(
+  "/:id/reset-profile",
+  requirePermission(USERS_RESET_PROFILE.key),
+  resetUserProfile
+);
+
+router.get(
+  "/:id/permissions",
+  requirePermission(USERS_READ.key),
+  getUserPermissions
+);
+router.put(
+  "/:id/permissions/:key",
+  requirePermission(PERMISSIONS_MANAGE.key),
+  setUserPermission
+);
+router.delete(
+  "/:id/permissions/:key",
+  requirePermission(PERMISSIONS_MANAGE.key),
+  removeUserPermission
+);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import { requirePermission } from "@middleware/authMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  listWaitlist,
+  getWaitlistStats,
+  issueInvites,
+  listInvites,
+  revokeInvite,
+} from "@controllers/adminWaitlistController";
+
+const router = Router();
+
+const canManage = requirePermission(PERMISSIONS.WAITLIST_MANAGE.key);
+
+router.get("/", canManage, listWaitlist);
+router.get("/stats", canManage, getWaitlistStats);
+router.get("/invites", canManage, listInvites);
+router.post("/invites", canManage, issueInvites);
+router.delete("/invites/:id", canManage, revokeInvite);
+
+export default router;
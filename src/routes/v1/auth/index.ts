@@ -8,11 +8,16 @@ import {
 } from "@controllers/authController";
 import { authenticate } from "@middleware/authMiddleware";
 import { setCsrfToken } from "@middleware/csrfMiddleware";
+import { rememberInviteCode } from "@middleware/inviteMiddleware";
 
 const router = Router();
 
-// Google OAuth routes
-router.get("/google", passport.authenticate("google", { scope: ["profile", "email"] }));
+// Google OAuth routes; `?invite=CODE` signs up with an invite code
+router.get(
+  "/google",
+  rememberInviteCode,
+  passport.authenticate("google", { scope: ["profile", "email"] })
+);
 
 router.get(
   "/google/callback",
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import {
+  authenticate,
+  optionalAuthenticate,
+  requirePermission,
+} from "@middleware/authMiddleware";
+import { filterMatureContent } from "@middleware/contentFilterMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  getChapter,
+  updateChapter,
+  deleteChapter,
+} from "@controllers/chapterController";
+
+const router = Router();
+
+// Chapter management (editors and above by default)
+const canPublish = [
+  authenticate,
+  requirePermission(PERMISSIONS.SERIES_PUBLISH.key),
+];
+const canDelete = [authenticate, requirePermission(PERMISSIONS.SERIES_DELETE.key)];
+
+// Reader; the user (if any) decides whether mature pages are returned
+router.get("/:id", optionalAuthenticate, filterMatureContent, getChapter);
+router.put("/:id", ...canPublish, updateChapter);
+router.delete("/:id", ...canDelete, deleteChapter);
+
+export default router;
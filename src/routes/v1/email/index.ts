@@ -0,0 +1,16 @@
+import { Router } from "express";
+import {
+  describeUnsubscribe,
+  unsubscribe,
+} from "@controllers/emailPreferenceController";
+import { rateLimit } from "@middleware/rateLimitMiddleware";
+
+const router = Router();
+
+// Unsubscribe links work without signing in; the token is the credential
+const unsubscribeLimit = rateLimit({ windowMs: 60 * 1000, max: 30 });
+
+router.get("/unsubscribe", unsubscribeLimit, describeUnsubscribe);
+router.post("/unsubscribe", unsubscribeLimit, unsubscribe);
+
+export default router;
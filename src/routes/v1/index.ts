@@ -2,15 +2,23 @@ import { Router } from "express";
 import waitlistRoutes from "./waitlist/index";
 import authRoutes from "./auth/index";
 import userRoutes from "./user/index";
+import usersRoutes from "./users/index";
 import adminRoutes from "./admin/index";
 import meRoutes from "./me/index";
+import seriesRoutes from "./series/index";
+import chapterRoutes from "./chapters/index";
+import emailRoutes from "./email/index";
 
 const router = Router();
 
 router.use("/waitlist", waitlistRoutes);
 router.use("/auth", authRoutes);
 router.use("/user", userRoutes);
+router.use("/users", usersRoutes);
 router.use("/admin", adminRoutes);
 router.use("/me", meRoutes);
+router.use("/series", seriesRoutes);
+router.use("/chapters", chapterRoutes);
+router.use("/email", emailRoutes);
 
 export default router;
@@ -1,13 +1,32 @@
 import { Router } from "express";
-import { authenticate, requireOwnership } from "@middleware/authMiddleware";
+import { authenticate } from "@middleware/authMiddleware";
 import userNSFWRoutes from "./userNSFWRoutes";
 import userProfileRoutes from "./userProfileRoutes";
+import userLibraryRoutes from "./userLibraryRoutes";
+import userProgressRoutes from "./userProgressRoutes";
+import userSessionRoutes from "./userSessionRoutes";
+import userPermissionRoutes from "./userPermissionRoutes";
+import userAgeVerificationRoutes from "./userAgeVerificationRoutes";
+import userPrivacyRoutes from "./userPrivacyRoutes";
+import userAccountRoutes from "./userAccountRoutes";
+import userEmailPreferenceRoutes from "./userEmailPreferenceRoutes";
+import userNotificationRoutes from "./userNotificationRoutes";
 
 const router = Router();
 
-router.use(authenticate, requireOwnership());
+// Every /me route acts on req.user, so authentication is the only check
+router.use(authenticate);
 
 router.use("/", userNSFWRoutes);
 router.use("/", userProfileRoutes);
+router.use("/", userLibraryRoutes);
+router.use("/", userProgressRoutes);
+router.use("/", userSessionRoutes);
+router.use("/", userPermissionRoutes);
+router.use("/", userAgeVerificationRoutes);
+router.use("/", userPrivacyRoutes);
+router.use("/", userAccountRoutes);
+router.use("/", userEmailPreferenceRoutes);
+router.use("/", userNotificationRoutes);
 
 export default router;
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { rateLimit } from "@middleware/rateLimitMiddleware";
+import {
+  exportData,
+  getDeletionStatus,
+  requestDeletion,
+  cancelDeletion,
+} from "@controllers/accountController";
+
+const router = Router();
+
+// Exports read every table about the user
+const exportLimit = rateLimit({ windowMs: 60 * 60 * 1000, max: 5 });
+
+router.get("/export", exportLimit, exportData);
+router.get("/delete", getDeletionStatus);
+router.post("/delete", requestDeletion);
+router.post("/delete/cancel", cancelDeletion);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import {
+  getAgeVerification,
+  submitAgeVerification,
+} from "@controllers/ageVerificationController";
+
+const router = Router();
+
+router.get("/age-verification", getAgeVerification);
+router.post("/age-verification", submitAgeVerification);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import {
+  getEmailPreferenceSettings,
+  updateEmailPreferenceSettings,
+} from "@controllers/emailPreferenceController";
+
+const router = Router();
+
+router.get("/email-preferences", getEmailPreferenceSettings);
+router.put("/email-preferences", updateEmailPreferenceSettings);
+
+export default router;
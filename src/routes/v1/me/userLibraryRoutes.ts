@@ -0,0 +1,30 @@
+import { Router } from "express";
+import { filterMatureContent } from "@middleware/contentFilterMiddleware";
+import {
+  getLibrary,
+  createShelf,
+  updateShelf,
+  deleteShelf,
+  getShelfEntries,
+  addShelfEntry,
+  removeShelfEntry,
+  reorderShelfEntries,
+  moveShelfEntries,
+} from "@controllers/libraryController";
+
+const router = Router();
+
+// Mature entries are hidden, not deleted, while the user cannot view them
+router.use("/library", filterMatureContent);
+
+router.get("/library", getLibrary);
+router.post("/library/shelves", createShelf);
+router.put("/library/shelves/:shelfId", updateShelf);
+router.delete("/library/shelves/:shelfId", deleteShelf);
+router.get("/library/shelves/:shelfId", getShelfEntries);
+router.post("/library/shelves/:shelfId/entries", addShelfEntry);
+router.delete("/library/shelves/:shelfId/entries/:seriesId", removeShelfEntry);
+router.put("/library/shelves/:shelfId/order", reorderShelfEntries);
+router.post("/library/move", moveShelfEntries);
+
+export default router;
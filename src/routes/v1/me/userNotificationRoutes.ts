@@ -0,0 +1,20 @@
+import { Router } from "express";
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  readNotifications,
+  readAllNotifications,
+  getNotificationSettings,
+  updateNotificationSettings,
+} from "@controllers/notificationController";
+
+const router = Router();
+
+router.get("/notifications", getNotifications);
+router.get("/notifications/unread-count", getUnreadNotificationCount);
+router.post("/notifications/read", readNotifications);
+router.post("/notifications/read-all", readAllNotifications);
+router.get("/notifications/preferences", getNotificationSettings);
+router.put("/notifications/preferences", updateNotificationSettings);
+
+export default router;
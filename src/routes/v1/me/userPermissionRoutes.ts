@@ -0,0 +1,8 @@
+import { Router } from "express";
+import { getMyPermissions } from "@controllers/permissionController";
+
+const router = Router();
+
+router.get("/permissions", getMyPermissions);
+
+export default router;
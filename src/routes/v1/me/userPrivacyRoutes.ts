@@ -0,0 +1,12 @@
+import { Router } from "express";
+import {
+  getProfilePrivacySettings,
+  updateProfilePrivacySettings,
+} from "@controllers/publicProfileController";
+
+const router = Router();
+
+router.get("/privacy", getProfilePrivacySettings);
+router.put("/privacy", updateProfilePrivacySettings);
+
+export default router;
@@ -3,12 +3,28 @@ import {
   profileSetupHandler,
   getUserProfile,
   editUserProfile,
+  getUsernameStatus,
 } from "@controllers/profileController";
+import { getBirthday, setBirthday } from "@controllers/birthdayController";
+import {
+  uploadAvatar,
+  uploadBanner,
+  deleteAvatar,
+  deleteBanner,
+} from "@controllers/profileImageController";
+import { uploadProfileImage } from "@middleware/uploadMiddleware";
 
 const router = Router();
 
 router.post("/profile-setup", profileSetupHandler);
 router.get("/profile", getUserProfile);
 router.put("/profile", editUserProfile);
+router.get("/profile/username", getUsernameStatus);
+router.get("/profile/birthday", getBirthday);
+router.put("/profile/birthday", setBirthday);
+router.put("/profile/avatar", uploadProfileImage("avatar"), uploadAvatar);
+router.delete("/profile/avatar", deleteAvatar);
+router.put("/profile/banner", uploadProfileImage("banner"), uploadBanner);
+router.delete("/profile/banner", deleteBanner);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { filterMatureContent } from "@middleware/contentFilterMiddleware";
+import {
+  updateProgress,
+  getContinueReading,
+  getSeriesProgress,
+  deleteSeriesProgress,
+} from "@controllers/progressController";
+
+const router = Router();
+
+router.use("/progress", filterMatureContent);
+
+router.get("/progress", getContinueReading);
+router.put("/progress", updateProgress);
+router.get("/progress/:seriesId", getSeriesProgress);
+router.delete("/progress/:seriesId", deleteSeriesProgress);
+
+export default router;
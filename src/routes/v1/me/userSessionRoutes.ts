@@ -0,0 +1,16 @@
+import { Router } from "express";
+import {
+  listSessions,
+  renameSession,
+  revokeSession,
+  revokeOtherSessions,
+} from "@controllers/sessionController";
+
+const router = Router();
+
+router.get("/sessions", listSessions);
+router.post("/sessions/revoke-others", revokeOtherSessions);
+router.put("/sessions/:sessionId", renameSession);
+router.delete("/sessions/:sessionId", revokeSession);
+
+export default router;
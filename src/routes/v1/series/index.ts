@@ -0,0 +1,42 @@
+import { Router } from "express";
+import {
+  authenticate,
+  optionalAuthenticate,
+  requirePermission,
+} from "@middleware/authMiddleware";
+import { filterMatureContent } from "@middleware/contentFilterMiddleware";
+import { PERMISSIONS } from "@utils/permissionUtils";
+import {
+  listSeries,
+  getSeries,
+  createSeries,
+  updateSeries,
+  deleteSeries,
+} from "@controllers/seriesController";
+import {
+  listSeriesChapters,
+  createChapter,
+} from "@controllers/chapterController";
+
+const router = Router();
+
+// Catalog management (editors and above by default)
+const canPublish = [
+  authenticate,
+  requirePermission(PERMISSIONS.SERIES_PUBLISH.key),
+];
+const canDelete = [authenticate, requirePermission(PERMISSIONS.SERIES_DELETE.key)];
+
+// Readers; mature series and chapters depend on the requester's band
+const contentFilter = [optionalAuthenticate, filterMatureContent];
+
+router.get("/", ...contentFilter, listSeries);
+router.get("/:id", ...contentFilter, getSeries);
+router.post("/", ...canPublish, createSeries);
+router.put("/:id", ...canPublish, updateSeries);
+router.delete("/:id", ...canDelete, deleteSeries);
+
+router.get("/:id/chapters", ...contentFilter, listSeriesChapters);
+router.post("/:id/chapters", ...canPublish, createChapter);
+
+export default router;
@@ -1,8 +1,18 @@
 import { Router } from "express";
+import { optionalAuthenticate } from "@middleware/authMiddleware";
+import { rateLimit } from "@middleware/rateLimitMiddleware";
 import { checkUsernameHandler } from "@controllers/userController";
 
 const router = Router();
 
-router.get("/check-username", checkUsernameHandler);
+// Slows down probing for which usernames exist
+const usernameCheckLimit = rateLimit({ windowMs: 60 * 1000, max: 30 });
+
+router.get(
+  "/check-username",
+  optionalAuthenticate,
+  usernameCheckLimit,
+  checkUsernameHandler
+);
 
 export default router;
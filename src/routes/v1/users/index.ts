@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { optionalAuthenticate } from "@middleware/authMiddleware";
+import { filterMatureContent } from "@middleware/contentFilterMiddleware";
+import {
+  getPublicProfile,
+  getPublicShelfEntries,
+} from "@controllers/publicProfileController";
+
+const router = Router();
+
+// Public profiles; some parts depend on whether the viewer is signed in
+const contentFilter = [optionalAuthenticate, filterMatureContent];
+
+router.get("/:username", ...contentFilter, getPublicProfile);
+router.get("/:username/shelves/:shelfId", ...contentFilter, getPublicShelfEntries);
+
+export default router;
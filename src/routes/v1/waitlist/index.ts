@@ -1,8 +1,12 @@
 import { Router } from 'express';
+import { rateLimit } from '@middleware/rateLimitMiddleware';
 import { createWaitlistEntry } from '@controllers/waitlistController';
 
 const router = Router();
 
-router.post('/entry', createWaitlistEntry);
+// Slows down filling the waitlist with junk
+const entryLimit = rateLimit({ windowMs: 60 * 60 * 1000, max: 10 });
+
+router.post('/entry', entryLimit, createWaitlistEntry);
 
 export default router;
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+const EXPORT_FORMATS = ["json", "zip"] as const;
+
+export const dataExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("json"),
+});
+
+export const requestDeletionSchema = z.object({
+  // Guards against deleting by accident
+  confirm: z.literal(true, {
+    errorMap: () => ({ message: "Set confirm to true to delete your account" }),
+  }),
+});
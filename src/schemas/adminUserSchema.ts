@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+export const listUsersQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  // Matches email, username or Google ID
+  q: z.string().trim().min(1).max(255).optional(),
+  email: z.string().trim().min(1).max(255).optional(),
+  username: z.string().trim().min(1).max(255).optional(),
+  googleId: z.string().trim().min(1).max(255).optional(),
+  country: z
+    .string()
+    .length(2, "Country must be an ISO 3166-1 alpha-2 code")
+    .transform((code) => code.toUpperCase())
+    .optional(),
+  roleId: z.coerce.number().int().positive().optional(),
+  suspended: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+export const changeRoleSchema = z.object({
+  roleId: z.number().int().positive(),
+});
+
+export const suspendUserSchema = z.object({
+  reason: z.string().trim().min(1).max(255, "Reason cannot exceed 255 characters"),
+  // Omit for an indefinite suspension
+  until: z.coerce
+    .date()
+    .refine((date) => date > new Date(), "Suspension end must be in the future")
+    .optional(),
+});
+
+export const RESETTABLE_PROFILE_FIELDS = [
+  "username",
+  "bio",
+  "profilePic",
+  "bannerPic",
+  "colorTheme",
+] as const;
+
+export const resetProfileSchema = z.object({
+  fields: z
+    .array(z.enum(RESETTABLE_PROFILE_FIELDS))
+    .min(1, "At least one field must be provided"),
+});
+
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
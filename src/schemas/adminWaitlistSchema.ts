@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { dateRangeEndSchema, isDateRangeOrdered } from "./dateRangeSchema";
+
+const ENTRY_STATUSES = ["waiting", "invited", "converted"] as const;
+const INVITE_STATUSES = ["unused", "used", "expired"] as const;
+
+// Upper bound on invites issued in one batch
+const MAX_INVITE_BATCH = 500;
+
+export const listWaitlistQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    // Matches email, first or second name
+    q: z.string().trim().min(1).max(255).optional(),
+    // waiting: not invited yet; invited: not signed up yet; converted: signed up
+    status: z.enum(ENTRY_STATUSES).optional(),
+    from: z.coerce.date().optional(),
+    to: dateRangeEndSchema.optional(),
+    // csv exports every match (up to the export limit) instead of one page
+    format: z.enum(["json", "csv"]).default("json"),
+  })
+  .refine((data) => isDateRangeOrdered(data.from, data.to), {
+    message: "`from` must be before `to`",
+    path: ["from"],
+  });
+
+export const issueInvitesSchema = z
+  .object({
+    // Codes anyone can use
+    count: z.number().int().min(1).max(MAX_INVITE_BATCH).optional(),
+    // Or one code per waitlist entry, only usable with its email
+    entryIds: z
+      .array(z.number().int().positive())
+      .min(1)
+      .max(MAX_INVITE_BATCH)
+      .optional(),
+    // Omit for codes that never expire
+    expiresInDays: z.number().int().min(1).max(365).optional(),
+  })
+  .refine((data) => (data.count === undefined) !== (data.entryIds === undefined), {
+    message: "Provide either count or entryIds",
+    path: ["count"],
+  });
+
+export const listInvitesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  batchId: z.string().uuid("Batch ID must be a UUID").optional(),
+  status: z.enum(INVITE_STATUSES).optional(),
+  // csv exports every match (up to the export limit), e.g. to send codes out
+  format: z.enum(["json", "csv"]).default("json"),
+});
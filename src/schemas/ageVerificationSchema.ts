@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+const VERIFICATION_STATUSES = [
+  "PENDING",
+  "APPROVED",
+  "REJECTED",
+  "EXPIRED",
+] as const;
+
+export const submitVerificationSchema = z.object({
+  evidence: z
+    .object({
+      // e.g. a link to an uploaded ID document, for manual review
+      documentUrl: z.string().url("Document must be a valid URL").max(500).optional(),
+      note: z.string().trim().max(500, "Note cannot exceed 500 characters").optional(),
+      // Only read by the fake provider
+      fakeOutcome: z.enum(["approve", "reject"]).optional(),
+    })
+    .strict()
+    .default({}),
+});
+
+export const listVerificationsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(VERIFICATION_STATUSES).default("PENDING"),
+  userId: z.coerce.number().int().positive().optional(),
+});
+
+export const approveVerificationSchema = z.object({
+  reason: z.string().trim().max(500, "Reason cannot exceed 500 characters").optional(),
+});
+
+export const rejectVerificationSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "A reason is required")
+    .max(500, "Reason cannot exceed 500 characters"),
+});
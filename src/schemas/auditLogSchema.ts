@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { dateRangeEndSchema, isDateRangeOrdered } from "./dateRangeSchema";
+
+export const listAuditLogQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    actorId: z.coerce.number().int().positive().optional(),
+    // Exact action, or a prefix ending in "." (e.g. "users.")
+    action: z.string().trim().min(1).max(100).optional(),
+    targetType: z.string().trim().min(1).max(50).optional(),
+    targetId: z.string().trim().min(1).max(100).optional(),
+    from: z.coerce.date().optional(),
+    to: dateRangeEndSchema.optional(),
+    // csv exports every match (up to the export limit) instead of one page
+    format: z.enum(["json", "csv"]).default("json"),
+  })
+  .refine((data) => isDateRangeOrdered(data.from, data.to), {
+    message: "`from` must be before `to`",
+    path: ["from"],
+  });
+
+export type ListAuditLogQuery = z.infer<typeof listAuditLogQuerySchema>;
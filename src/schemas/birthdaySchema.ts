@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+const CHANGE_STATUSES = ["PENDING", "APPROVED", "REJECTED"] as const;
+
+const MAX_AGE_YEARS = 120;
+
+const birthdaySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Birthday must be a date in YYYY-MM-DD format")
+  // Rejects dates like 2001-02-30 that Date would roll over
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, "Birthday is not a valid date")
+  .transform((value) => new Date(`${value}T00:00:00Z`))
+  .refine((date) => date <= new Date(), "Birthday cannot be in the future")
+  .refine((date) => {
+    const oldest = new Date();
+    oldest.setUTCFullYear(oldest.getUTCFullYear() - MAX_AGE_YEARS);
+    return date >= oldest;
+  }, `Birthday cannot be more than ${MAX_AGE_YEARS} years ago`);
+
+export const setBirthdaySchema = z.object({
+  birthday: birthdaySchema,
+  // Only used when the birthday is already set and the change needs review
+  reason: z.string().trim().max(500, "Reason cannot exceed 500 characters").optional(),
+});
+
+export const listBirthdayChangesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(CHANGE_STATUSES).default("PENDING"),
+  userId: z.coerce.number().int().positive().optional(),
+});
+
+export const approveBirthdayChangeSchema = z.object({
+  reason: z.string().trim().max(500, "Reason cannot exceed 500 characters").optional(),
+});
+
+export const rejectBirthdayChangeSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "A reason is required")
+    .max(500, "Reason cannot exceed 500 characters"),
+});
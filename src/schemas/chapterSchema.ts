@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+const pageSchema = z.object({
+  url: z.string().url("Page URL must be valid").max(500),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+});
+
+const chapterFields = {
+  number: z
+    .number()
+    .nonnegative("Chapter number cannot be negative")
+    .multipleOf(0.01, "Chapter number allows at most two decimals"),
+  title: z.string().trim().max(255, "Title cannot exceed 255 characters").optional(),
+  language: z
+    .string()
+    .regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, "Language must be a BCP 47 tag")
+    .max(10)
+    .optional(),
+  publishedAt: z.coerce.date().optional(),
+  scanlationGroup: z
+    .string()
+    .trim()
+    .max(100, "Scanlation group cannot exceed 100 characters")
+    .optional(),
+  nsfw: z.boolean().optional(),
+  // Pages in reading order; replaces all existing pages when provided
+  pages: z.array(pageSchema).max(500).optional(),
+};
+
+export const createChapterSchema = z.object(chapterFields);
+
+export const updateChapterSchema = z
+  .object(chapterFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const listChaptersQuerySchema = z.object({
+  language: z.string().max(10).optional(),
+  order: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export type CreateChapter = z.infer<typeof createChapterSchema>;
+export type UpdateChapter = z.infer<typeof updateChapterSchema>;
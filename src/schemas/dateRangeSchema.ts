@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DateRangeEnd = { lt: Date } | { lte: Date };
+
+/**
+ * End of an inclusive date range, as a Prisma `DateTime` bound
+ *
+ * A date without a time (YYYY-MM-DD) covers that whole day, so it ends
+ * before the start of the next day.
+ */
+export const dateRangeEndSchema = z.union([
+  z
+    .string()
+    .regex(DATE_ONLY)
+    .refine((day) => !Number.isNaN(Date.parse(day)))
+    .transform((day): DateRangeEnd => ({ lt: new Date(Date.parse(day) + DAY_MS) })),
+  z.coerce.date().transform((date): DateRangeEnd => ({ lte: date })),
+]);
+
+/**
+ * Checks that a date range doesn't end before it starts
+ */
+export const isDateRangeOrdered = (from?: Date, to?: DateRangeEnd): boolean =>
+  !from || !to || ("lt" in to ? from < to.lt : from <= to.lte);
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const updateEmailPreferencesSchema = z
+  .object({
+    security: z.boolean().optional(),
+    account: z.boolean().optional(),
+    announcements: z.boolean().optional(),
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const unsubscribeQuerySchema = z.object({
+  token: z.string().min(1, "Token is mandatory").max(200),
+});
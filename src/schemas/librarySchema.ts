@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+const shelfName = z
+  .string()
+  .trim()
+  .min(1, "Shelf name is mandatory")
+  .max(50, "Shelf name cannot exceed 50 characters");
+
+const seriesIds = z
+  .array(z.number().int().positive())
+  .min(1, "At least one series must be provided")
+  .max(200);
+
+export const createShelfSchema = z.object({
+  name: shelfName,
+  // Shown on the public profile
+  isPublic: z.boolean().optional(),
+});
+
+export const updateShelfSchema = z
+  .object({
+    name: shelfName.optional(),
+    position: z.number().int().min(0).optional(),
+    isPublic: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const addEntrySchema = z.object({
+  seriesId: z.number().int().positive(),
+});
+
+export const reorderEntriesSchema = z.object({
+  // Series in their new order; unlisted entries keep their order after these
+  seriesIds,
+});
+
+export const moveEntriesSchema = z
+  .object({
+    fromShelfId: z.number().int().positive(),
+    toShelfId: z.number().int().positive(),
+    seriesIds,
+  })
+  .refine((data) => data.fromShelfId !== data.toShelfId, {
+    message: "Source and destination shelves must differ",
+  });
+
+export const listEntriesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
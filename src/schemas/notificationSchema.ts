@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const listNotificationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  // ID of the last item of the previous page
+  cursor: z.coerce.number().int().positive().optional(),
+  unread: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(100),
+});
+
+// One field per NotificationType
+export const updateNotificationPreferencesSchema = z
+  .object({
+    NEW_CHAPTER: z.boolean().optional(),
+    AGE_VERIFICATION_DECISION: z.boolean().optional(),
+    ROLE_CHANGED: z.boolean().optional(),
+    SECURITY_ALERT: z.boolean().optional(),
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
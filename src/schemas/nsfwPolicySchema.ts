@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { isCountryCode } from "@utils/countryUtils";
+
+export const countryCodeSchema = z
+  .string()
+  .trim()
+  .length(2, "Country must be an ISO 3166-1 alpha-2 code")
+  .transform((code) => code.toUpperCase())
+  .refine(isCountryCode, "Unknown ISO 3166-1 alpha-2 country code");
+
+const COUNTRY_POLICIES = ["STRICTEST_RECENT", "LATEST_WINS", "STICKY"] as const;
+
+const minimumAgeSchema = z.number().int().min(13).max(99);
+
+const restrictedCountrySchema = z.object({
+  country: countryCodeSchema,
+  // 1 = NSFW banned, 2 = allowed with age verification (if band 2 is enabled)
+  band: z.union([z.literal(1), z.literal(2)]),
+});
+
+const countryMinimumAgeSchema = z.object({
+  country: countryCodeSchema,
+  minimumAge: minimumAgeSchema,
+});
+
+// Rejects lists that mention a country twice
+const uniqueCountries = <T extends { country: string }>(items: T[]) =>
+  new Set(items.map((item) => item.country)).size === items.length;
+
+const restrictedCountryList = z
+  .array(restrictedCountrySchema)
+  .max(300)
+  .refine(uniqueCountries, "Each country can only be listed once");
+
+const countryMinimumAgeList = z
+  .array(countryMinimumAgeSchema)
+  .max(300)
+  .refine(uniqueCountries, "Each country can only be listed once");
+
+export const updateNSFWPolicySchema = z
+  .object({
+    band2Enabled: z.boolean().optional(),
+    // Default minimum age, for countries without their own
+    minimumAge: minimumAgeSchema.optional(),
+    // How a user's country follows the countries they are seen in
+    countryPolicy: z.enum(COUNTRY_POLICIES).optional(),
+    // Lookback for STRICTEST_RECENT
+    countryWindowDays: z.number().int().min(1).max(365).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const addRestrictedCountrySchema = restrictedCountrySchema;
+
+export const importRestrictedCountriesSchema = z.object({
+  countries: restrictedCountryList,
+  // replace: the list becomes the full set; merge: add or update only
+  mode: z.enum(["replace", "merge"]).default("merge"),
+});
+
+export const setCountryMinimumAgeSchema = z.object({
+  minimumAge: minimumAgeSchema,
+});
+
+// A proposed policy; omitted parts keep their current value
+export const nsfwPolicyDryRunSchema = z.object({
+  band2Enabled: z.boolean().optional(),
+  minimumAge: minimumAgeSchema.optional(),
+  // Replace the full lists when given
+  restrictedCountries: restrictedCountryList.optional(),
+  countryMinimumAges: countryMinimumAgeList.optional(),
+});
+
+export type NSFWPolicyDryRun = z.infer<typeof nsfwPolicyDryRunSchema>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { isPermissionKey } from "@utils/permissionUtils";
+
+export const permissionKeySchema = z
+  .string()
+  .trim()
+  .refine(isPermissionKey, "Unknown permission");
+
+export const setRolePermissionsSchema = z.object({
+  // Replaces the role's permissions
+  permissions: z.array(permissionKeySchema).max(100),
+});
+
+export const setUserPermissionSchema = z.object({
+  // true grants the permission, false denies it even if the role has it
+  granted: z.boolean(),
+});
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const updateProgressSchema = z.object({
+  chapterId: z.number().int().positive(),
+  page: z.number().int().min(0).default(0),
+  // When the page was read on the device; defaults to now
+  readAt: z.coerce.date().optional(),
+  deviceId: z.string().trim().min(1).max(100).optional(),
+});
+
+export const continueReadingQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  // ID of the last item of the previous page
+  cursor: z.coerce.number().int().positive().optional(),
+});
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+const VISIBILITIES = ["PUBLIC", "USERS", "PRIVATE"] as const;
+
+const visibility = z.enum(VISIBILITIES).optional();
+
+export const updateProfilePrivacySchema = z
+  .object({
+    bio: visibility,
+    avatar: visibility,
+    banner: visibility,
+    colorTheme: visibility,
+    joinedAt: visibility,
+    // Whether shelves marked public are shown
+    library: visibility,
+    stats: visibility,
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+const RESERVED_USERNAME_MATCHES = ["EXACT", "CONTAINS"] as const;
+
+const reservedTerm = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(2)
+  .max(50, "Term cannot exceed 50 characters")
+  .regex(/^[a-z0-9_]+$/, "Only letters, numbers and underscores allowed");
+
+export const listReservedUsernamesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  // Partial match on the term
+  q: z.string().trim().min(1).max(50).optional(),
+  match: z.enum(RESERVED_USERNAME_MATCHES).optional(),
+});
+
+export const createReservedUsernameSchema = z.object({
+  term: reservedTerm,
+  // EXACT reserves the name; CONTAINS blocks any username containing it
+  match: z.enum(RESERVED_USERNAME_MATCHES).default("EXACT"),
+  reason: z.string().trim().max(255, "Reason cannot exceed 255 characters").optional(),
+});
+
+export const updateReservedUsernameSchema = z
+  .object({
+    match: z.enum(RESERVED_USERNAME_MATCHES).optional(),
+    // null clears it
+    reason: z
+      .string()
+      .trim()
+      .max(255, "Reason cannot exceed 255 characters")
+      .nullable()
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
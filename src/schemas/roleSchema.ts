@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+const roleName = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(2)
+  .max(50, "Role name cannot exceed 50 characters")
+  .regex(
+    /^[a-z][a-z0-9_]*$/,
+    "Only lowercase letters, numbers and underscores allowed"
+  );
+
+export const createRoleSchema = z.object({
+  name: roleName,
+  // Lower number = higher priority
+  priority: z.number().int().min(0),
+  isDefault: z.boolean().optional(),
+});
+
+export const updateRoleSchema = z
+  .object({
+    name: roleName.optional(),
+    priority: z.number().int().min(0).optional(),
+    // Only `true` is accepted: set another role as default to move it
+    isDefault: z.literal(true).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
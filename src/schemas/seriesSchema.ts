@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+const SERIES_STATUSES = ["ONGOING", "COMPLETED", "HIATUS", "CANCELLED"] as const;
+const CONTENT_RATINGS = [
+  "SAFE",
+  "SUGGESTIVE",
+  "EROTICA",
+  "PORNOGRAPHIC",
+] as const;
+
+// Ratings that always count as NSFW, regardless of the `nsfw` flag sent
+const NSFW_RATINGS = ["EROTICA", "PORNOGRAPHIC"];
+
+const nameList = z.array(z.string().trim().min(1).max(100)).max(50);
+
+const seriesFields = {
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is mandatory")
+    .max(255, "Title cannot exceed 255 characters"),
+  alternateTitles: nameList.optional(),
+  synopsis: z
+    .string()
+    .max(5000, "Synopsis cannot exceed 5000 characters")
+    .optional(),
+  status: z.enum(SERIES_STATUSES).optional(),
+  authors: nameList.optional(),
+  artists: nameList.optional(),
+  genres: nameList.optional(),
+  tags: nameList.optional(),
+  coverImage: z.string().url("Cover image must be a valid URL").max(255).optional(),
+  nsfw: z.boolean().optional(),
+  contentRating: z.enum(CONTENT_RATINGS).optional(),
+};
+
+/**
+ * Sets `nsfw` when the content rating always counts as NSFW
+ *
+ * Updates must pass the stored rating if they don't change it.
+ */
+export const withNSFWRating = <T extends { nsfw?: boolean; contentRating?: string }>(
+  data: T
+): T =>
+  data.contentRating && NSFW_RATINGS.includes(data.contentRating)
+    ? { ...data, nsfw: true }
+    : data;
+
+export const createSeriesSchema = z
+  .object(seriesFields)
+  .transform(withNSFWRating);
+
+export const updateSeriesSchema = z
+  .object(seriesFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const listSeriesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  q: z.string().trim().min(1).max(255).optional(),
+  status: z.enum(SERIES_STATUSES).optional(),
+  genre: z.string().trim().min(1).optional(),
+  tag: z.string().trim().min(1).optional(),
+  sort: z.enum(["title", "createdAt", "updatedAt"]).default("updatedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type CreateSeries = z.infer<typeof createSeriesSchema>;
+export type UpdateSeries = z.infer<typeof updateSeriesSchema>;
+export type ListSeriesQuery = z.infer<typeof listSeriesQuerySchema>;
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const sessionIdSchema = z.string().uuid("Session ID must be a UUID");
+
+export const renameSessionSchema = z.object({
+  deviceLabel: z
+    .string()
+    .trim()
+    .min(1, "Device label is mandatory")
+    .max(100, "Device label cannot exceed 100 characters"),
+});
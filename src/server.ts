@@ -7,6 +7,18 @@ import "module-alias/register";
 import express, { Application } from "express";
 import ServerConfig from "./app";
 import router from "@routes/v1";
+import {
+  checkRoleConsistency,
+  startRoleHierarchyRefresh,
+} from "@utils/roleUtils";
+import { syncPermissions } from "./services/permissionService";
+import { loadGeoIp } from "./services/geoIpService";
+import { backfillUsernameKeys } from "./services/usernameService";
+import { backfillDefaultShelfKinds } from "./services/libraryService";
+import { startAccountDeletionJob } from "./services/accountDeletionService";
+import { startOutboxWorker } from "./services/mailerService";
+import { checkEmailTransportConfig } from "./services/emailTransports";
+import { startChapterNotificationJob } from "./services/notificationService";
 
 // Initialize passport configuration
 import "./passport/google";
@@ -47,14 +59,49 @@ const PORT: number = process.env.PORT ? parseInt(process.env.PORT, 10) : 8080;
 // API routes
 app.use("/api/v1", router);
 
-app
-  .listen(PORT, "localhost", function () {
-    console.log(`Server running on port ${PORT}.`);
-  })
-  .on("error", (err: any) => {
-    if (err.code === "EADDRINUSE") {
-      console.log("Port already in use");
-    } else {
-      console.log(err);
-    }
-  });
+const start = async (): Promise<void> => {
+  // --- Role Consistency Check ---
+  const roleProblems: string[] = await checkRoleConsistency();
+
+  if (roleProblems.length > 0) {
+    console.error(
+      "FATAL ERROR: Role table does not match the roles used in code:"
+    );
+    roleProblems.forEach((problem) => console.error(`  - ${problem}`));
+    console.error(
+      "Server cannot start until these roles exist. Run `npx prisma db seed` or fix the roles table."
+    );
+    process.exit(1);
+  }
+  startRoleHierarchyRefresh();
+  console.log("Role hierarchy loaded.");
+  // --- End Role Consistency Check ---
+
+  await syncPermissions();
+  console.log("Permission catalogue synced.");
+
+  checkEmailTransportConfig();
+  await loadGeoIp();
+  await backfillUsernameKeys();
+  await backfillDefaultShelfKinds();
+  startAccountDeletionJob();
+  startOutboxWorker();
+  startChapterNotificationJob();
+
+  app
+    .listen(PORT, "localhost", function () {
+      console.log(`Server running on port ${PORT}.`);
+    })
+    .on("error", (err: any) => {
+      if (err.code === "EADDRINUSE") {
+        console.log("Port already in use");
+      } else {
+        console.log(err);
+      }
+    });
+};
+
+start().catch((error) => {
+  console.error("FATAL ERROR: Server failed to start:", error);
+  process.exit(1);
+});
@@ -0,0 +1,201 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { revokeAllSessions, revokeOtherSessions } from "./tokenService";
+import { invalidateAuthUser } from "./authStateService";
+import { invalidateUserPermissions } from "./permissionService";
+import { deleteStoredImages } from "./imageService";
+
+/**
+ * Account Deletion Service
+ *
+ * Users ask for their account to be deleted; it is kept for a grace period
+ * (`ACCOUNT_DELETION_GRACE_DAYS`, default 30) during which they can sign
+ * in and cancel. Meanwhile their public profile is hidden.
+ *
+ * Once the period ends, a background job deletes the account:
+ * - the user row, and with it everything they own (sessions, library,
+ *   progress, requests, history, ...)
+ * - their waitlist entry and emails sent to them, matched by email
+ * - their uploaded images
+ *
+ * Rows that must outlive them are anonymised instead: audit entries they
+ * made lose the actor, IP and user agent, and entries about them lose the
+ * before/after snapshots. Moderator decisions they made keep the outcome
+ * without the reviewer. Invites, which live in another schema and don't
+ * cascade, lose their email and the user who used or issued them.
+ */
+
+const DEFAULT_GRACE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often the job looks for accounts due for deletion
+const DELETION_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+// Accounts deleted per run, so a backlog doesn't hold the job for long
+const DELETION_BATCH_SIZE = 100;
+
+export const getDeletionGraceDays = (): number => {
+  const days = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS);
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS;
+};
+
+/**
+ * Schedules a user's account for deletion
+ *
+ * Signs them out everywhere else, so a stolen session cannot cancel it.
+ *
+ * @param userId - User deleting their account
+ * @param keepSessionId - Caller's session, kept so they can still cancel
+ * @returns When the account will be deleted
+ * @throws AppError (409) if deletion is already scheduled
+ */
+export const requestAccountDeletion = async (
+  userId: number,
+  keepSessionId?: string
+): Promise<Date> => {
+  const requestedAt = new Date();
+  const scheduledFor = new Date(
+    requestedAt.getTime() + getDeletionGraceDays() * DAY_MS
+  );
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, deletionScheduledFor: null },
+    data: { deletionRequestedAt: requestedAt, deletionScheduledFor: scheduledFor },
+  });
+  if (count === 0) {
+    throw new AppError(
+      "Account deletion is already scheduled",
+      409,
+      ErrorAppCode.AccountDeletionConflict
+    );
+  }
+
+  if (keepSessionId) {
+    await revokeOtherSessions(userId, keepSessionId);
+  } else {
+    await revokeAllSessions(userId);
+  }
+  invalidateAuthUser(userId);
+  return scheduledFor;
+};
+
+/**
+ * Cancels a scheduled deletion
+ *
+ * @throws AppError (409) if no deletion is scheduled
+ */
+export const cancelAccountDeletion = async (userId: number): Promise<void> => {
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, deletionScheduledFor: { not: null } },
+    data: { deletionRequestedAt: null, deletionScheduledFor: null },
+  });
+  if (count === 0) {
+    throw new AppError(
+      "Account deletion is not scheduled",
+      409,
+      ErrorAppCode.AccountDeletionConflict
+    );
+  }
+  invalidateAuthUser(userId);
+};
+
+/**
+ * Deletes an account and anonymises what must be kept
+ *
+ * @param userId - Account to delete
+ */
+export const deleteAccount = async (userId: number): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, profilePicVariants: true, bannerPicVariants: true },
+  });
+  if (!user) return;
+
+  // Ends sessions and drops them from the session cache
+  await revokeAllSessions(userId);
+
+  await prisma.$transaction([
+    prisma.auditLog.updateMany({
+      where: { actorId: userId },
+      data: { ipAddress: null, userAgent: null },
+    }),
+    prisma.auditLog.updateMany({
+      where: { targetType: "user", targetId: String(userId) },
+      data: { before: Prisma.DbNull, after: Prisma.DbNull },
+    }),
+    prisma.waitlistEntry.deleteMany({
+      where: { email: { equals: user.email, mode: "insensitive" } },
+    }),
+    // Emails sent before sign-up have no user to cascade from
+    prisma.emailOutbox.deleteMany({
+      where: { to: { equals: user.email, mode: "insensitive" } },
+    }),
+    prisma.inviteCode.updateMany({
+      where: {
+        OR: [
+          { usedById: userId },
+          { email: { equals: user.email, mode: "insensitive" } },
+        ],
+      },
+      data: { email: null, usedById: null },
+    }),
+    prisma.inviteCode.updateMany({
+      where: { createdById: userId },
+      data: { createdById: null },
+    }),
+    // Owned rows cascade; audit actors and reviewers are set to null
+    prisma.user.delete({ where: { id: userId } }),
+    prisma.auditLog.create({
+      data: { action: "users.delete", targetType: "user", targetId: String(userId) },
+    }),
+  ]);
+
+  invalidateAuthUser(userId);
+  invalidateUserPermissions(userId);
+  await deleteStoredImages(user.profilePicVariants);
+  await deleteStoredImages(user.bannerPicVariants);
+};
+
+/**
+ * Deletes accounts whose grace period has ended
+ *
+ * A failure for one account is logged and retried on the next run.
+ *
+ * @returns Number of accounts deleted
+ */
+export const processDueDeletions = async (): Promise<number> => {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: new Date() } },
+    orderBy: { deletionScheduledFor: "asc" },
+    take: DELETION_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let deleted = 0;
+  for (const { id } of due) {
+    try {
+      await deleteAccount(id);
+      deleted++;
+    } catch (error) {
+      console.error(`Failed to delete account ${id}:`, error);
+    }
+  }
+
+  if (deleted > 0) console.log(`Deleted ${deleted} accounts.`);
+  return deleted;
+};
+
+/**
+ * Runs the deletion job now and then periodically in the background
+ */
+export const startAccountDeletionJob = (): void => {
+  const run = () =>
+    processDueDeletions().catch((error) =>
+      console.error("Account deletion job failed:", error)
+    );
+
+  run();
+  setInterval(run, DELETION_JOB_INTERVAL_MS).unref();
+};
@@ -0,0 +1,85 @@
+/**
+ * Age Verification Providers
+ *
+ * A provider receives a user's verification request and either decides it
+ * straight away or leaves it pending. Pending requests are decided by a
+ * moderator, or later by the provider (e.g. from a webhook) through
+ * `applyDecision` in the age verification service.
+ *
+ * The provider is chosen with `AGE_VERIFICATION_PROVIDER`:
+ * - `manual` (default): every request goes to the moderator queue
+ * - `fake`: decides from the submitted evidence, for local testing only
+ *
+ * To add a third-party verifier, implement `AgeVerificationProvider` and
+ * register it in `PROVIDERS`.
+ */
+
+export interface AgeVerificationSubmission {
+  requestId: number;
+  userId: number;
+  birthday: Date | null;
+  country: string | null;
+  evidence: Record<string, unknown>;
+}
+
+export type AgeVerificationOutcome =
+  | { status: "PENDING"; reference?: string }
+  | { status: "APPROVED" | "REJECTED"; reference?: string; reason?: string };
+
+export interface AgeVerificationProvider {
+  name: string;
+  submit(submission: AgeVerificationSubmission): Promise<AgeVerificationOutcome>;
+}
+
+/**
+ * Leaves every request for moderator review
+ */
+const manualProvider: AgeVerificationProvider = {
+  name: "manual",
+  submit: async () => ({ status: "PENDING" }),
+};
+
+/**
+ * Decides from `evidence.fakeOutcome` ("approve" | "reject"); anything
+ * else stays pending for review
+ */
+const fakeProvider: AgeVerificationProvider = {
+  name: "fake",
+  submit: async ({ requestId, evidence }) => {
+    const reference = `fake-${requestId}`;
+    switch (evidence.fakeOutcome) {
+      case "approve":
+        return { status: "APPROVED", reference, reason: "Approved by fake provider" };
+      case "reject":
+        return { status: "REJECTED", reference, reason: "Rejected by fake provider" };
+      default:
+        return { status: "PENDING", reference };
+    }
+  },
+};
+
+const PROVIDERS: Record<string, AgeVerificationProvider> = {
+  [manualProvider.name]: manualProvider,
+  [fakeProvider.name]: fakeProvider,
+};
+
+/**
+ * Returns the configured provider
+ *
+ * Falls back to manual review if the provider is unknown, or if the fake
+ * provider is configured in production.
+ */
+export const getAgeVerificationProvider = (): AgeVerificationProvider => {
+  const name = process.env.AGE_VERIFICATION_PROVIDER || manualProvider.name;
+  const provider = PROVIDERS[name];
+
+  if (!provider) {
+    console.warn(`Unknown age verification provider "${name}", using manual review`);
+    return manualProvider;
+  }
+  if (provider === fakeProvider && process.env.ENVIRONMENT === "production") {
+    console.warn("Fake age verification provider is disabled in production");
+    return manualProvider;
+  }
+  return provider;
+};
@@ -0,0 +1,215 @@
+import { AgeVerificationRequest, AgeVerificationStatus, Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { getUserBand, getBandMessage } from "@utils/contentFilter";
+import { invalidateAuthUser } from "./authStateService";
+import { getAgeVerificationProvider } from "./ageVerificationProviders";
+import { queueEmailSafely, queueUserEmail } from "./mailerService";
+import { notifySafely, notifyUser } from "./notificationService";
+
+/**
+ * Age Verification Service
+ *
+ * Runs the verification workflow for band 2 users:
+ * - A user submits a request, which goes to the configured provider
+ * - Requests the provider leaves pending wait in the moderator queue
+ * - Pending requests expire if nobody decides them in time
+ * - Approval sets `User.verifiedForNSFW`
+ */
+
+const REQUEST_TTL_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+
+export interface AgeVerificationDecision {
+  status: "APPROVED" | "REJECTED";
+  reason?: string;
+  reviewedById?: number; // unset for provider decisions
+}
+
+/**
+ * Marks pending requests past their expiry as expired
+ *
+ * Run lazily before reading or creating requests.
+ *
+ * @param userId - Only expire this user's requests (all if omitted)
+ * @returns Number of requests expired
+ */
+export const expireStaleRequests = async (userId?: number): Promise<number> => {
+  const { count } = await prisma.ageVerificationRequest.updateMany({
+    where: {
+      userId,
+      status: AgeVerificationStatus.PENDING,
+      expiresAt: { lt: new Date() },
+    },
+    data: { status: AgeVerificationStatus.EXPIRED },
+  });
+  return count;
+};
+
+/**
+ * Records a decision on a pending request
+ *
+ * Approval also verifies the user, who is told the outcome by email and
+ * notification. A request that is no longer pending (decided, or expired)
+ * cannot be decided again.
+ *
+ * @param requestId - Request to decide
+ * @param decision - Outcome, reason and reviewer
+ * @returns The updated request
+ */
+export const applyDecision = async (
+  requestId: number,
+  decision: AgeVerificationDecision
+): Promise<AgeVerificationRequest> => {
+  await expireStaleRequests();
+
+  const request = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.ageVerificationRequest.updateMany({
+      where: { id: requestId, status: AgeVerificationStatus.PENDING },
+      data: {
+        status: decision.status,
+        decisionReason: decision.reason ?? null,
+        reviewedById: decision.reviewedById ?? null,
+        reviewedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      const exists = await tx.ageVerificationRequest.findUnique({
+        where: { id: requestId },
+        select: { status: true },
+      });
+      if (!exists) {
+        throw new AppError(
+          "Verification request not found",
+          404,
+          ErrorAppCode.VerificationRequestNotFound
+        );
+      }
+      throw new AppError(
+        `Verification request is already ${exists.status.toLowerCase()}`,
+        409,
+        ErrorAppCode.VerificationConflict
+      );
+    }
+
+    const request = await tx.ageVerificationRequest.findUniqueOrThrow({
+      where: { id: requestId },
+    });
+    if (decision.status === AgeVerificationStatus.APPROVED) {
+      await tx.user.update({
+        where: { id: request.userId },
+        data: { verifiedForNSFW: true },
+      });
+    }
+    return request;
+  });
+
+  invalidateAuthUser(request.userId);
+  const approved = decision.status === AgeVerificationStatus.APPROVED;
+  await queueEmailSafely(() =>
+    queueUserEmail(request.userId, "age_verification_decision", {
+      approved,
+      reason: request.decisionReason,
+    })
+  );
+  await notifySafely(() =>
+    notifyUser(request.userId, "AGE_VERIFICATION_DECISION", {
+      title: approved
+        ? "Your age verification was approved"
+        : "Your age verification was not approved",
+      body: request.decisionReason ?? undefined,
+      link: "/settings",
+      data: { requestId: request.id, status: request.status },
+    })
+  );
+  return request;
+};
+
+/**
+ * Submits a verification request for a user
+ *
+ * Only band 2 users who aren't verified and have no pending request can
+ * submit. The provider may decide the request immediately.
+ *
+ * @param userId - User asking to be verified
+ * @param evidence - Provider-specific submission data
+ * @returns The request, after any immediate provider decision
+ */
+export const submitRequest = async (
+  userId: number,
+  evidence: Record<string, unknown>
+): Promise<AgeVerificationRequest> => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+  }
+  if (user.verifiedForNSFW) {
+    throw new AppError(
+      "You are already verified",
+      409,
+      ErrorAppCode.VerificationConflict
+    );
+  }
+
+  const band = await getUserBand(user);
+  if (band.band === 1) {
+    throw new AppError(
+      getBandMessage(band.reason, band.minimumAge),
+      403,
+      band.reason
+    );
+  }
+  if (band.band === 3) {
+    throw new AppError(
+      "Age verification is not required in your country",
+      400,
+      ErrorAppCode.VerificationNotRequired
+    );
+  }
+
+  await expireStaleRequests(userId);
+  const pending = await prisma.ageVerificationRequest.findFirst({
+    where: { userId, status: AgeVerificationStatus.PENDING },
+    select: { id: true },
+  });
+  if (pending) {
+    throw new AppError(
+      "You already have a pending verification request",
+      409,
+      ErrorAppCode.VerificationConflict,
+      { requestId: pending.id }
+    );
+  }
+
+  const provider = getAgeVerificationProvider();
+  const request = await prisma.ageVerificationRequest.create({
+    data: {
+      userId,
+      provider: provider.name,
+      evidence: evidence as Prisma.InputJsonObject,
+      expiresAt: new Date(Date.now() + REQUEST_TTL_MS),
+    },
+  });
+
+  const outcome = await provider.submit({
+    requestId: request.id,
+    userId,
+    birthday: user.birthday,
+    country: user.country,
+    evidence,
+  });
+
+  if (outcome.reference) {
+    await prisma.ageVerificationRequest.update({
+      where: { id: request.id },
+      data: { providerReference: outcome.reference },
+    });
+  }
+  if (outcome.status === "PENDING") {
+    return { ...request, providerReference: outcome.reference ?? null };
+  }
+
+  return applyDecision(request.id, {
+    status: outcome.status,
+    reason: outcome.reason,
+  });
+};
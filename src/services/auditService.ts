@@ -0,0 +1,100 @@
+import { Request } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { getClientIp } from "@utils/requestUtils";
+
+/**
+ * Audit Service
+ *
+ * Writes the audit log of privileged changes. Each entry records who did
+ * what to which target, the fields that changed (before and after), and
+ * the request it came from (IP, user agent, request ID).
+ */
+
+export interface AuditEntry {
+  action: string; // e.g. 'users.suspend'
+  targetType: string; // e.g. 'user'
+  targetId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Round-trips through JSON so dates and similar become plain values
+const toJson = (value: unknown): unknown =>
+  value === undefined || value === null
+    ? undefined
+    : JSON.parse(JSON.stringify(value));
+
+/**
+ * Reduces two snapshots to the fields that differ
+ *
+ * Only applies when both snapshots are objects; a create or delete keeps
+ * the full snapshot on its side.
+ *
+ * @param before - State before the action
+ * @param after - State after the action
+ * @returns Changed fields on each side
+ */
+export const diffSnapshots = (
+  before: unknown,
+  after: unknown
+): { before?: Prisma.InputJsonValue; after?: Prisma.InputJsonValue } => {
+  const beforeJson = toJson(before);
+  const afterJson = toJson(after);
+  if (!isRecord(beforeJson) || !isRecord(afterJson)) {
+    return {
+      before: beforeJson as Prisma.InputJsonValue | undefined,
+      after: afterJson as Prisma.InputJsonValue | undefined,
+    };
+  }
+
+  const keys = new Set([...Object.keys(beforeJson), ...Object.keys(afterJson)]);
+  const changedBefore: JsonRecord = {};
+  const changedAfter: JsonRecord = {};
+  keys.forEach((key) => {
+    if (JSON.stringify(beforeJson[key]) !== JSON.stringify(afterJson[key])) {
+      changedBefore[key] = beforeJson[key] ?? null;
+      changedAfter[key] = afterJson[key] ?? null;
+    }
+  });
+
+  return {
+    before: changedBefore as Prisma.InputJsonObject,
+    after: changedAfter as Prisma.InputJsonObject,
+  };
+};
+
+/**
+ * Records an audit entry for a request
+ *
+ * @param req - Request that made the change; supplies actor and origin
+ * @param entry - What changed
+ */
+export const recordAudit = async (
+  req: Request,
+  entry: AuditEntry
+): Promise<void> => {
+  const { before, after } = diffSnapshots(entry.before, entry.after);
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: req.user?.id ?? null,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId:
+        entry.targetId === undefined || entry.targetId === null
+          ? null
+          : String(entry.targetId),
+      before,
+      after,
+      ipAddress: getClientIp(req).slice(0, 45) || null,
+      userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+      requestId: req.requestId ?? null,
+    },
+  });
+};
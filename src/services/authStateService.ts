@@ -0,0 +1,97 @@
+import { prisma } from "@libs/prisma";
+import { TtlCache } from "@utils/ttlCache";
+
+/**
+ * Auth State Service
+ *
+ * This service decides whether an access token is still honoured:
+ * - The token's `tokenVersion` must match the user's current version
+ * - The token's session must still have a live refresh token
+ *
+ * Bumping a user's token version (role change, suspension) or revoking a
+ * session therefore takes effect on the next request instead of at token
+ * expiry. Lookups are cached in-process for a few seconds so `authenticate`
+ * does not hit the database on every request; local changes clear the
+ * cache immediately, other instances catch up within the TTL.
+ */
+
+const AUTH_CACHE_TTL_MS = 10 * 1000; // 10 seconds
+
+const userCache = new TtlCache<number, Express.User>(AUTH_CACHE_TTL_MS);
+const sessionCache = new TtlCache<string, boolean>(AUTH_CACHE_TTL_MS);
+
+/**
+ * Fetches a user with their role, using the cache when possible
+ *
+ * @param userId - User ID to fetch
+ * @returns User with role, or null if not found
+ */
+export const getAuthUser = async (
+  userId: number
+): Promise<Express.User | null> => {
+  const cached = userCache.get(userId);
+  if (cached) return cached;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { role: true },
+  });
+  if (!user) return null;
+
+  userCache.set(userId, user as Express.User);
+  return user as Express.User;
+};
+
+/**
+ * Checks whether a session still has a live refresh token
+ *
+ * @param sessionId - Session ID carried by the access token
+ * @returns True if the session has not been revoked or expired
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  const cached = sessionCache.get(sessionId);
+  if (cached !== undefined) return cached;
+
+  const liveToken = await prisma.refreshToken.findFirst({
+    where: { sessionId, rotatedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true },
+  });
+  const active = !!liveToken;
+
+  sessionCache.set(sessionId, active);
+  return active;
+};
+
+/**
+ * Drops a user from the cache, e.g. after their role or profile changed
+ *
+ * @param userId - User ID to forget
+ */
+export const invalidateAuthUser = (userId: number): void => {
+  userCache.delete(userId);
+};
+
+/**
+ * Drops sessions from the cache after they were revoked
+ *
+ * @param sessionIds - Session IDs to forget
+ */
+export const invalidateSessions = (sessionIds: string[]): void => {
+  sessionIds.forEach((sessionId) => sessionCache.delete(sessionId));
+};
+
+/**
+ * Invalidates every access token issued to a user so far
+ *
+ * Use when a user is demoted, suspended or otherwise loses access.
+ * Refresh tokens are untouched; revoke sessions as well to sign them out.
+ *
+ * @param userId - User ID whose access tokens to invalidate
+ */
+export const revokeUserAccessTokens = async (userId: number): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { tokenVersion: { increment: 1 } },
+  });
+  invalidateAuthUser(userId);
+};
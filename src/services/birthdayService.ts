@@ -0,0 +1,154 @@
+import { BirthdayChangeRequest, BirthdayChangeStatus } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { reconcileNSFWAccess } from "@utils/contentFilter";
+import { invalidateAuthUser } from "./authStateService";
+
+/**
+ * Birthday Service
+ *
+ * Users set their birthday once. After that, a change is a request that a
+ * moderator approves or rejects, so nobody can age themselves into NSFW
+ * access. Whenever the birthday changes, NSFW is switched off if the new
+ * age no longer allows it.
+ */
+
+export interface BirthdayChangeDecision {
+  status: "APPROVED" | "REJECTED";
+  reason?: string;
+  reviewedById: number;
+}
+
+export type SetBirthdayResult =
+  | { applied: true; nsfwDisabled: boolean }
+  | { applied: false; request: BirthdayChangeRequest };
+
+/**
+ * Writes a birthday and re-checks the user's NSFW access
+ *
+ * @returns True if NSFW was switched off
+ */
+const applyBirthday = async (userId: number, birthday: Date): Promise<boolean> => {
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { birthday },
+  });
+  invalidateAuthUser(userId);
+  return reconcileNSFWAccess(user);
+};
+
+/**
+ * Sets a user's birthday, or asks for it to be changed
+ *
+ * The first birthday is applied immediately. If one is already set, a
+ * pending change request is created instead; only one can be pending.
+ *
+ * @param userId - User setting their birthday
+ * @param birthday - New birthday
+ * @param reason - Why it needs changing, for the moderator
+ */
+export const setBirthday = async (
+  userId: number,
+  birthday: Date,
+  reason?: string
+): Promise<SetBirthdayResult> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { birthday: true },
+  });
+  if (!user) {
+    throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+  }
+
+  if (!user.birthday) {
+    // Only the first concurrent request may set it without review
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, birthday: null },
+      data: { birthday },
+    });
+    if (count > 0) {
+      invalidateAuthUser(userId);
+      const updated = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+      return { applied: true, nsfwDisabled: await reconcileNSFWAccess(updated) };
+    }
+  } else if (user.birthday.getTime() === birthday.getTime()) {
+    throw new AppError(
+      "Birthday is already set to this date",
+      400,
+      ErrorAppCode.BadInput
+    );
+  }
+
+  const pending = await prisma.birthdayChangeRequest.findFirst({
+    where: { userId, status: BirthdayChangeStatus.PENDING },
+    select: { id: true },
+  });
+  if (pending) {
+    throw new AppError(
+      "You already have a pending birthday change",
+      409,
+      ErrorAppCode.BirthdayChangeConflict,
+      { requestId: pending.id }
+    );
+  }
+
+  const request = await prisma.birthdayChangeRequest.create({
+    data: {
+      userId,
+      currentBirthday: user.birthday,
+      requestedBirthday: birthday,
+      reason: reason ?? null,
+    },
+  });
+  return { applied: false, request };
+};
+
+/**
+ * Records a decision on a pending change request
+ *
+ * Approval applies the requested birthday. A request that is no longer
+ * pending cannot be decided again.
+ *
+ * @param requestId - Request to decide
+ * @param decision - Outcome, reason and reviewer
+ * @returns The updated request, and whether NSFW was switched off
+ */
+export const decideBirthdayChange = async (
+  requestId: number,
+  decision: BirthdayChangeDecision
+): Promise<{ request: BirthdayChangeRequest; nsfwDisabled: boolean }> => {
+  const { count } = await prisma.birthdayChangeRequest.updateMany({
+    where: { id: requestId, status: BirthdayChangeStatus.PENDING },
+    data: {
+      status: decision.status,
+      decisionReason: decision.reason ?? null,
+      reviewedById: decision.reviewedById,
+      reviewedAt: new Date(),
+    },
+  });
+
+  const request = await prisma.birthdayChangeRequest.findUnique({
+    where: { id: requestId },
+  });
+  if (!request) {
+    throw new AppError(
+      "Birthday change request not found",
+      404,
+      ErrorAppCode.BirthdayChangeNotFound
+    );
+  }
+  if (count === 0) {
+    throw new AppError(
+      `Birthday change request is already ${request.status.toLowerCase()}`,
+      409,
+      ErrorAppCode.BirthdayChangeConflict
+    );
+  }
+
+  const nsfwDisabled =
+    decision.status === BirthdayChangeStatus.APPROVED
+      ? await applyBirthday(request.userId, request.requestedBirthday)
+      : false;
+
+  return { request, nsfwDisabled };
+};
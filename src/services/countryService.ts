@@ -0,0 +1,192 @@
+import { Request } from "express";
+import { CountryPolicy, User } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { getClientIp } from "@utils/requestUtils";
+import { computeUserBand, loadNSFWPolicySnapshot } from "@utils/contentFilter";
+import { invalidateAuthUser } from "./authStateService";
+import { resolveCountry } from "./geoIpService";
+import { queueEmailSafely, queueUserEmail } from "./mailerService";
+import { notifySafely, notifyUser } from "./notificationService";
+
+/**
+ * Country Service
+ *
+ * Re-resolves a user's country on every sign-in and refresh. Each country
+ * a user is seen in is kept as an observation, and the NSFW policy's
+ * `countryPolicy` decides which one becomes `User.country`:
+ * - STRICTEST_RECENT: the country giving the lowest band among those seen
+ *   within `countryWindowDays` (latest wins ties)
+ * - LATEST_WINS: the country just seen
+ * - STICKY: the first country seen
+ *
+ * When the new country lowers the user's band, a security event tells them
+ * by email, notification and on their next sign-in, and NSFW is switched
+ * off if they lost access.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type EvaluatedUser = Pick<
+  User,
+  "id" | "birthday" | "country" | "nsfwEnabled" | "verifiedForNSFW"
+>;
+
+/**
+ * Whether a band (with the user's verification) still allows mature content
+ */
+const allowsMature = (band: number, verifiedForNSFW: boolean): boolean =>
+  band === 3 || (band === 2 && verifiedForNSFW);
+
+/**
+ * Records the country of the request's IP and updates the user's country
+ * under the current policy
+ *
+ * Seeing the user's current country again only refreshes its observation;
+ * the policy is applied when a different country is seen.
+ *
+ * Never throws: a failed re-evaluation must not block signing in. The
+ * user object is updated in place.
+ *
+ * @param user - User signing in or refreshing
+ * @param req - Express request object
+ */
+export const reevaluateUserCountry = async (
+  user: EvaluatedUser,
+  req: Request
+): Promise<void> => {
+  try {
+    await reevaluate(user, req);
+  } catch (error) {
+    console.error(`Failed to re-evaluate the country of user ${user.id}:`, error);
+  }
+};
+
+const reevaluate = async (user: EvaluatedUser, req: Request): Promise<void> => {
+  const resolution = await resolveCountry(getClientIp(req));
+  if (!resolution) {
+    if (!user.country) {
+      console.warn(`Could not resolve a country for user ${user.id}`);
+    }
+    return;
+  }
+
+  const now = new Date();
+  await prisma.userCountryObservation.upsert({
+    where: { userId_country: { userId: user.id, country: resolution.country } },
+    update: {
+      source: resolution.source,
+      seenCount: { increment: 1 },
+      lastSeenAt: now,
+    },
+    create: {
+      userId: user.id,
+      country: resolution.country,
+      source: resolution.source,
+    },
+  });
+  if (resolution.country === user.country) return;
+
+  const settings = await prisma.nSFWPolicy.findUnique({
+    where: { id: 1 },
+    select: { countryPolicy: true, countryWindowDays: true },
+  });
+  const countryPolicy = settings?.countryPolicy ?? CountryPolicy.STRICTEST_RECENT;
+
+  let candidates = [resolution.country];
+  if (countryPolicy === CountryPolicy.STICKY && user.country) {
+    candidates = [user.country];
+  } else if (countryPolicy === CountryPolicy.STRICTEST_RECENT) {
+    const windowDays = settings?.countryWindowDays ?? 30;
+    const recent = await prisma.userCountryObservation.findMany({
+      where: {
+        userId: user.id,
+        lastSeenAt: { gte: new Date(now.getTime() - windowDays * DAY_MS) },
+      },
+      orderBy: { lastSeenAt: "desc" },
+      select: { country: true },
+    });
+    candidates = recent.map((observation) => observation.country);
+  }
+
+  const policy = await loadNSFWPolicySnapshot(
+    user.country ? [...candidates, user.country] : candidates
+  );
+  const bandIn = (country: string | null) =>
+    computeUserBand({ birthday: user.birthday, country }, policy).band;
+
+  // Candidates are newest first, so ties keep the latest country
+  let country = candidates[0];
+  for (const candidate of candidates) {
+    if (bandIn(candidate) < bandIn(country)) country = candidate;
+  }
+  if (country === user.country) return;
+
+  const source =
+    country === resolution.country
+      ? resolution.source
+      : (
+          await prisma.userCountryObservation.findUniqueOrThrow({
+            where: { userId_country: { userId: user.id, country } },
+            select: { source: true },
+          })
+        ).source;
+
+  const bandBefore = bandIn(user.country);
+  const bandAfter = bandIn(country);
+  const lostAccess =
+    user.nsfwEnabled &&
+    allowsMature(bandBefore, user.verifiedForNSFW) &&
+    !allowsMature(bandAfter, user.verifiedForNSFW);
+
+  const data = {
+    country,
+    countrySource: source,
+    countryAssignedAt: now,
+    ...(lostAccess ? { nsfwEnabled: false } : {}),
+  };
+
+  const [, event] = await prisma.$transaction([
+    prisma.user.update({ where: { id: user.id }, data }),
+    ...(user.country && bandAfter < bandBefore
+      ? [
+          prisma.securityEvent.create({
+            data: {
+              userId: user.id,
+              type: "NSFW_BAND_LOWERED",
+              ipAddress: getClientIp(req).slice(0, 45) || null,
+              userAgent: req.headers["user-agent"]?.slice(0, 500) ?? null,
+              details: {
+                previousCountry: user.country,
+                country,
+                bandBefore,
+                bandAfter,
+                nsfwDisabled: lostAccess,
+              },
+            },
+          }),
+        ]
+      : []),
+  ]);
+
+  Object.assign(user, data);
+  invalidateAuthUser(user.id);
+  if (event) {
+    await queueEmailSafely(() =>
+      queueUserEmail(user.id, "security_alert", {
+        type: event.type,
+        occurredAt: event.createdAt,
+        ipAddress: event.ipAddress,
+      })
+    );
+    await notifySafely(() =>
+      notifyUser(user.id, "SECURITY_ALERT", {
+        title: "Mature content rules changed for your account",
+        body: lostAccess
+          ? `You signed in from ${country}, which has stricter rules, so mature content was turned off.`
+          : `You signed in from ${country}, which has stricter rules for mature content.`,
+        link: "/settings",
+        data: { securityEventId: event.id },
+      })
+    );
+  }
+};
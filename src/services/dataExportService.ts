@@ -0,0 +1,194 @@
+import JSZip from "jszip";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { getEmailPreferences } from "./emailPreferenceService";
+import { getNotificationPreferences } from "./notificationService";
+import { listSessions } from "./tokenService";
+
+/**
+ * Data Export Service
+ *
+ * Gathers everything stored about a user for them to download (GDPR
+ * access and portability). Each section of the export is one part of
+ * their data; the zipped form has one JSON file per section.
+ *
+ * Secrets are left out (refresh token hashes, `tokenVersion`), as are
+ * other people's identities, such as the admin behind an audit entry.
+ * Anything new stored per user (e.g. comments, once they exist) needs a
+ * section here, and handling in the account deletion service.
+ */
+
+export type DataExport = Awaited<ReturnType<typeof buildDataExport>>;
+
+/**
+ * Builds a user's data export
+ *
+ * @param userId - User to export
+ * @returns The export, as plain JSON-serialisable sections
+ */
+export const buildDataExport = async (userId: number) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { role: { select: { name: true } }, profilePrivacy: true },
+  });
+  if (!user) {
+    throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+  }
+  const { tokenVersion, role, profilePrivacy, ...profile } = user;
+
+  const [
+    sessions,
+    securityEvents,
+    countries,
+    usernames,
+    permissionOverrides,
+    library,
+    progress,
+    ageVerifications,
+    birthdayChanges,
+    auditByUser,
+    auditAboutUser,
+    waitlist,
+    emailPreferences,
+    emails,
+    notifications,
+    notificationPreferences,
+  ] = await Promise.all([
+    listSessions(userId),
+    prisma.securityEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      omit: { userId: true },
+    }),
+    prisma.userCountryObservation.findMany({
+      where: { userId },
+      orderBy: { firstSeenAt: "asc" },
+      omit: { id: true, userId: true },
+    }),
+    prisma.usernameHistory.findMany({
+      where: { userId },
+      orderBy: { changedAt: "asc" },
+      select: { username: true, changedAt: true },
+    }),
+    prisma.userPermission.findMany({
+      where: { userId },
+      select: {
+        granted: true,
+        createdAt: true,
+        permission: { select: { key: true } },
+      },
+    }),
+    prisma.libraryShelf.findMany({
+      where: { userId },
+      orderBy: [{ position: "asc" }, { id: "asc" }],
+      select: {
+        name: true,
+        kind: true,
+        position: true,
+        isPublic: true,
+        createdAt: true,
+        entries: {
+          orderBy: [{ position: "asc" }, { id: "asc" }],
+          select: {
+            position: true,
+            addedAt: true,
+            series: { select: { id: true, title: true } },
+          },
+        },
+      },
+    }),
+    prisma.readingProgress.findMany({
+      where: { userId },
+      orderBy: { readAt: "desc" },
+      select: {
+        page: true,
+        deviceId: true,
+        readAt: true,
+        series: { select: { id: true, title: true } },
+        chapter: { select: { id: true, number: true, title: true } },
+      },
+    }),
+    prisma.ageVerificationRequest.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      omit: { userId: true, reviewedById: true },
+    }),
+    prisma.birthdayChangeRequest.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      omit: { userId: true, reviewedById: true },
+    }),
+    prisma.auditLog.findMany({
+      where: { actorId: userId },
+      orderBy: { createdAt: "asc" },
+      omit: { actorId: true },
+    }),
+    prisma.auditLog.findMany({
+      where: { targetType: "user", targetId: String(userId) },
+      orderBy: { createdAt: "asc" },
+      select: { action: true, before: true, after: true, createdAt: true },
+    }),
+    prisma.waitlistEntry.findFirst({
+      where: { email: { equals: user.email, mode: "insensitive" } },
+      omit: { id: true },
+    }),
+    getEmailPreferences(userId),
+    prisma.emailOutbox.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: { template: true, subject: true, status: true, sentAt: true, createdAt: true },
+    }),
+    prisma.notification.findMany({
+      where: { userId },
+      orderBy: { id: "asc" },
+      omit: { userId: true },
+    }),
+    getNotificationPreferences(userId),
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    profile: { ...profile, role: role.name },
+    privacy: profilePrivacy,
+    sessions,
+    securityEvents,
+    countries,
+    usernames,
+    permissionOverrides: permissionOverrides.map(({ permission, ...override }) => ({
+      key: permission.key,
+      ...override,
+    })),
+    library,
+    progress,
+    ageVerifications,
+    birthdayChanges,
+    auditLog: { byYou: auditByUser, aboutYou: auditAboutUser },
+    waitlist,
+    emailPreferences,
+    emails,
+    notifications,
+    notificationPreferences,
+  };
+};
+
+/**
+ * Packs an export into a zip with one JSON file per section
+ *
+ * @param data - Export to pack
+ * @returns Zip file contents
+ */
+export const zipDataExport = async (data: DataExport): Promise<Buffer> => {
+  const zip = new JSZip();
+  const { exportedAt, ...sections } = data;
+  const files = Object.keys(sections).map((name) => `${name}.json`);
+
+  zip.file(
+    "export.json",
+    JSON.stringify({ exportedAt, userId: data.profile.id, files }, null, 2)
+  );
+  Object.values(sections).forEach((section, index) => {
+    zip.file(files[index], JSON.stringify(section, null, 2));
+  });
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+};
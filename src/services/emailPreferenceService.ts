@@ -0,0 +1,131 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { prisma } from "@libs/prisma";
+
+/**
+ * Email Preference Service
+ *
+ * Users choose which categories of optional email they receive. Emails in
+ * a category carry a one-click unsubscribe link (RFC 8058) with a token
+ * naming the user and category, signed with `EMAIL_UNSUBSCRIBE_SECRET`
+ * (falling back to `JWT_ACCESS_SECRET`). Tokens don't expire, so links in
+ * old emails keep working.
+ *
+ * Service emails the user asked for (waitlist confirmations, invites) have
+ * no category and are always sent.
+ */
+
+export const EMAIL_CATEGORIES = ["security", "account", "announcements"] as const;
+
+export type EmailCategory = (typeof EMAIL_CATEGORIES)[number];
+export type EmailPreferences = Record<EmailCategory, boolean>;
+
+// Matches the column defaults of EmailPreference
+const DEFAULT_EMAIL_PREFERENCES: EmailPreferences = {
+  security: true,
+  account: true,
+  announcements: true,
+};
+
+/**
+ * Returns a user's email preferences, or the defaults if never set
+ */
+export const getEmailPreferences = async (
+  userId: number
+): Promise<EmailPreferences> => {
+  const preference = await prisma.emailPreference.findUnique({
+    where: { userId },
+  });
+  return Object.fromEntries(
+    EMAIL_CATEGORIES.map((category) => [
+      category,
+      preference?.[category] ?? DEFAULT_EMAIL_PREFERENCES[category],
+    ])
+  ) as EmailPreferences;
+};
+
+/**
+ * Changes some of a user's email preferences
+ *
+ * @returns The preferences after the change
+ */
+export const updateEmailPreferences = async (
+  userId: number,
+  changes: Partial<EmailPreferences>
+): Promise<EmailPreferences> => {
+  await prisma.emailPreference.upsert({
+    where: { userId },
+    update: changes,
+    create: { userId, ...changes },
+  });
+  return getEmailPreferences(userId);
+};
+
+/**
+ * Turns off one category of email, as asked through an unsubscribe link
+ *
+ * Does nothing if the account was deleted since the email was sent.
+ */
+export const unsubscribeFromCategory = async (
+  userId: number,
+  category: EmailCategory
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true },
+  });
+  if (!user) return;
+
+  await updateEmailPreferences(userId, { [category]: false });
+};
+
+const getSecret = (): string => {
+  const secret =
+    process.env.EMAIL_UNSUBSCRIBE_SECRET || process.env.JWT_ACCESS_SECRET;
+  if (!secret) {
+    throw new Error("EMAIL_UNSUBSCRIBE_SECRET or JWT_ACCESS_SECRET must be set");
+  }
+  return secret;
+};
+
+const sign = (payload: string): Buffer =>
+  createHmac("sha256", getSecret()).update(`unsubscribe:${payload}`).digest();
+
+/**
+ * Creates the unsubscribe token for a user and category
+ */
+export const createUnsubscribeToken = (
+  userId: number,
+  category: EmailCategory
+): string => {
+  const payload = `${userId}.${category}`;
+  return `${Buffer.from(payload).toString("base64url")}.${sign(payload).toString("base64url")}`;
+};
+
+/**
+ * Checks an unsubscribe token
+ *
+ * @returns The user and category it names, or null if it is not valid
+ */
+export const verifyUnsubscribeToken = (
+  token: string
+): { userId: number; category: EmailCategory } | null => {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const payload = Buffer.from(encoded, "base64url").toString();
+  const expected = sign(payload);
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return null;
+  }
+
+  const [id, category] = payload.split(".");
+  const userId = Number(id);
+  if (
+    !Number.isInteger(userId) ||
+    !(EMAIL_CATEGORIES as readonly string[]).includes(category)
+  ) {
+    return null;
+  }
+  return { userId, category: category as EmailCategory };
+};
@@ -0,0 +1,193 @@
+import { SecurityEventType } from "@prisma/client";
+import type { EmailCategory } from "./emailPreferenceService";
+
+/**
+ * Email Templates
+ *
+ * Each template turns its data into a subject and a few content blocks,
+ * which the shared layout renders as both HTML and plain text. Values are
+ * escaped for HTML by the layout, never by templates.
+ *
+ * Links point at `APP_URL` (the frontend) or `API_URL` (this server, as
+ * reached from outside).
+ */
+
+export interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+interface EmailTemplate<T> {
+  // null for emails that are always sent
+  category: EmailCategory | null;
+  render(data: T): EmailContent;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const SITE_NAME = "Manhco";
+
+export const appUrl = (path: string): string =>
+  `${(process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "")}${path}`;
+
+export const apiUrl = (path: string): string =>
+  `${(
+    process.env.API_URL || `http://localhost:${process.env.PORT || 8080}`
+  ).replace(/\/+$/, "")}${path}`;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatDate = (date: Date): string =>
+  date.toUTCString().replace(/:\d\d GMT$/, " UTC");
+
+const define = <T>(template: EmailTemplate<T>) => template;
+
+const SECURITY_ALERT_TEXT: Record<SecurityEventType, string> = {
+  REFRESH_TOKEN_REUSE:
+    "One of your sessions was used from two places at once, so we signed it out. If you did not expect this, sign out everywhere from your session settings.",
+  NSFW_BAND_LOWERED:
+    "You signed in from a country with stricter rules for mature content, so some content is now hidden from you.",
+};
+
+export const EMAIL_TEMPLATES = {
+  waitlist_confirmation: define<{ firstName: string }>({
+    category: null,
+    render: ({ firstName }) => ({
+      subject: `You're on the ${SITE_NAME} waitlist`,
+      heading: `Thanks, ${firstName}!`,
+      paragraphs: [
+        `You're on the ${SITE_NAME} waitlist. We'll email you an invite as soon as there's room.`,
+      ],
+    }),
+  }),
+
+  invite: define<{ firstName?: string; code: string; expiresAt: Date | null }>({
+    category: null,
+    render: ({ firstName, code, expiresAt }) => ({
+      subject: `Your invite to ${SITE_NAME}`,
+      heading: firstName ? `You're in, ${firstName}!` : "You're invited!",
+      paragraphs: [
+        `Your invite code is ${code.replace(/(.{4})(?=.)/g, "$1-")}.`,
+        expiresAt
+          ? `It can be used once, until ${formatDate(expiresAt)}.`
+          : "It can be used once.",
+      ],
+      action: {
+        label: "Create your account",
+        url: apiUrl(`/api/v1/auth/google?invite=${encodeURIComponent(code)}`),
+      },
+    }),
+  }),
+
+  age_verification_decision: define<{
+    firstName: string;
+    approved: boolean;
+    reason: string | null;
+  }>({
+    category: "account",
+    render: ({ firstName, approved, reason }) => ({
+      subject: approved
+        ? "Your age verification was approved"
+        : "Your age verification was not approved",
+      heading: `Hi ${firstName},`,
+      paragraphs: [
+        approved
+          ? "Your age has been verified, so you can now turn on mature content in your settings."
+          : "We could not verify your age from your request.",
+        ...(reason ? [`Reason: ${reason}`] : []),
+      ],
+      action: { label: "Open your settings", url: appUrl("/settings") },
+    }),
+  }),
+
+  security_alert: define<{
+    firstName: string;
+    type: SecurityEventType;
+    occurredAt: Date;
+    ipAddress: string | null;
+  }>({
+    category: "security",
+    render: ({ firstName, type, occurredAt, ipAddress }) => ({
+      subject: `Security alert for your ${SITE_NAME} account`,
+      heading: `Hi ${firstName},`,
+      paragraphs: [
+        SECURITY_ALERT_TEXT[type],
+        `When: ${formatDate(occurredAt)}` + (ipAddress ? `, from IP ${ipAddress}` : ""),
+      ],
+      action: { label: "Review your sessions", url: appUrl("/settings/sessions") },
+    }),
+  }),
+};
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+export type EmailTemplateData<N extends EmailTemplateName> = Parameters<
+  (typeof EMAIL_TEMPLATES)[N]["render"]
+>[0];
+
+/**
+ * Renders content in the shared layout
+ *
+ * @param content - Subject and blocks from a template
+ * @param unsubscribeUrl - Link to stop this category of email, if any
+ */
+const renderLayout = (
+  content: EmailContent,
+  unsubscribeUrl?: string
+): RenderedEmail => {
+  const footer = unsubscribeUrl
+    ? `You're receiving this because of your ${SITE_NAME} email settings.`
+    : `You're receiving this because of something you did on ${SITE_NAME}.`;
+
+  const html = [
+    `<!DOCTYPE html><html><body style="font-family:sans-serif;color:#222;max-width:560px;margin:auto;padding:24px">`,
+    `<h1 style="font-size:20px">${escapeHtml(content.heading)}</h1>`,
+    ...content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    content.action
+      ? `<p><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:10px 16px;background:#222;color:#fff;text-decoration:none;border-radius:4px">${escapeHtml(content.action.label)}</a></p>`
+      : "",
+    `<hr style="border:none;border-top:1px solid #ddd"><p style="font-size:12px;color:#777">${escapeHtml(footer)}`,
+    unsubscribeUrl
+      ? ` <a href="${escapeHtml(unsubscribeUrl)}" style="color:#777">Unsubscribe</a>`
+      : "",
+    `</p></body></html>`,
+  ].join("");
+
+  const text = [
+    content.heading,
+    ...content.paragraphs,
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    "--",
+    footer,
+    ...(unsubscribeUrl ? [`Unsubscribe: ${unsubscribeUrl}`] : []),
+  ].join("\n\n");
+
+  return { subject: content.subject, html, text };
+};
+
+/**
+ * Renders a template as HTML and plain text
+ *
+ * @param name - Template to render
+ * @param data - Values for the template
+ * @param unsubscribeUrl - Link to stop this category of email, if any
+ */
+export const renderEmail = <N extends EmailTemplateName>(
+  name: N,
+  data: EmailTemplateData<N>,
+  unsubscribeUrl?: string
+): RenderedEmail => {
+  const template = EMAIL_TEMPLATES[name] as EmailTemplate<EmailTemplateData<N>>;
+  return renderLayout(template.render(data), unsubscribeUrl);
+};
@@ -0,0 +1,199 @@
+import fs from "fs";
+import { once } from "events";
+import path from "path";
+import readline from "readline";
+import axios from "axios";
+import { z } from "zod";
+import { CountrySource } from "@prisma/client";
+import { parseCsvLine } from "@utils/csvUtils";
+import { formatIp, parseCidr } from "@utils/ipUtils";
+
+/**
+ * GeoIP Providers
+ *
+ * A provider maps a public IP address to an ISO 3166-1 alpha-2 country.
+ * `lookup` resolves to null when the address has no known country, and
+ * rejects when the provider itself failed (so the result isn't cached).
+ *
+ * - `offline`: loads the MaxMind GeoLite2 Country CSV files (not the .mmdb
+ *   binary database) from `GEOIP_DATABASE_DIR` into memory; no network
+ *   calls
+ * - `ip-api`: the ip-api.com JSON API, over plain HTTP (free tier)
+ *
+ * Without `GEOIP_PROVIDER`, `offline` is used when `GEOIP_DATABASE_DIR` is
+ * set, and `ip-api` otherwise.
+ */
+
+export interface GeoIpProvider {
+  name: string;
+  source: CountrySource; // recorded with each country assignment
+  checkConfig?(): void; // throws if required settings are missing
+  load?(): Promise<void>;
+  lookup(ip: Buffer): Promise<string | null>;
+}
+
+// MaxMind CSV file names inside GEOIP_DATABASE_DIR
+const BLOCK_FILES = [
+  "GeoLite2-Country-Blocks-IPv4.csv",
+  "GeoLite2-Country-Blocks-IPv6.csv",
+];
+const LOCATIONS_FILE = "GeoLite2-Country-Locations-en.csv";
+
+// Each range is 32 bytes in `bounds`: 16-byte start then 16-byte end
+interface CountryRanges {
+  bounds: Buffer;
+  countries: string[];
+}
+
+let ranges: CountryRanges | null = null;
+
+/**
+ * Streams a CSV file row by row, skipping the header
+ */
+const readCsv = async (
+  file: string,
+  onRow: (row: Record<string, string>) => void
+): Promise<void> => {
+  const input = fs.createReadStream(file);
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  let header: string[] | null = null;
+  lines.on("line", (line) => {
+    if (!line) return;
+    const cells = parseCsvLine(line);
+    if (!header) {
+      header = cells;
+      return;
+    }
+    onRow(Object.fromEntries(header.map((name, i) => [name, cells[i] ?? ""])));
+  });
+
+  // `once` rejects if the file stream errors (e.g. the file is missing)
+  await Promise.race([once(lines, "close"), once(input, "close")]);
+};
+
+/**
+ * Loads the MaxMind CSV database into sorted, packed ranges
+ */
+const loadCountryRanges = async (dir: string): Promise<CountryRanges> => {
+  const countryByGeonameId = new Map<string, string>();
+  await readCsv(path.join(dir, LOCATIONS_FILE), (row) => {
+    if (row.country_iso_code) {
+      countryByGeonameId.set(row.geoname_id, row.country_iso_code);
+    }
+  });
+
+  const rows: { start: Buffer; end: Buffer; country: string }[] = [];
+  for (const file of BLOCK_FILES) {
+    await readCsv(path.join(dir, file), (row) => {
+      // Prefer where the network is, then where it is registered
+      const country =
+        countryByGeonameId.get(row.geoname_id) ??
+        countryByGeonameId.get(row.registered_country_geoname_id);
+      const range = parseCidr(row.network);
+      if (country && range) rows.push({ ...range, country });
+    });
+  }
+  rows.sort((a, b) => a.start.compare(b.start));
+
+  const bounds = Buffer.alloc(rows.length * 32);
+  rows.forEach((row, i) => {
+    row.start.copy(bounds, i * 32);
+    row.end.copy(bounds, i * 32 + 16);
+  });
+  return { bounds, countries: rows.map((row) => row.country) };
+};
+
+/**
+ * Finds the country of the range containing an address (binary search)
+ */
+const findCountry = ({ bounds, countries }: CountryRanges, ip: Buffer) => {
+  let low = 0;
+  let high = countries.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const start = bounds.subarray(mid * 32, mid * 32 + 16);
+    const end = bounds.subarray(mid * 32 + 16, mid * 32 + 32);
+
+    if (ip.compare(start) < 0) {
+      high = mid - 1;
+    } else if (ip.compare(end) > 0) {
+      low = mid + 1;
+    } else {
+      return countries[mid];
+    }
+  }
+  return null;
+};
+
+const offlineProvider: GeoIpProvider = {
+  name: "offline",
+  source: CountrySource.OFFLINE_DATABASE,
+  checkConfig: () => {
+    if (!process.env.GEOIP_DATABASE_DIR) {
+      throw new Error(
+        "GEOIP_PROVIDER=offline requires GEOIP_DATABASE_DIR, the directory with the GeoLite2 Country CSV files"
+      );
+    }
+  },
+  load: async () => {
+    ranges = await loadCountryRanges(process.env.GEOIP_DATABASE_DIR!);
+    console.log(`GeoIP database loaded: ${ranges.countries.length} ranges.`);
+  },
+  lookup: async (ip) => {
+    if (!ranges) {
+      throw new Error("GeoIP database is not loaded");
+    }
+    return findCountry(ranges, ip);
+  },
+};
+
+const IpAPI = `http://ip-api.com/json/`;
+const IpApiResponse = z.object({
+  status: z.string(),
+  countryCode: z.string().optional(),
+  message: z.string().optional(),
+});
+
+const ipApiProvider: GeoIpProvider = {
+  name: "ip-api",
+  source: CountrySource.IP_API,
+  lookup: async (ip) => {
+    const res = await axios.get(IpAPI + formatIp(ip), {
+      params: { fields: "status,message,countryCode" },
+      timeout: 3000,
+    });
+    const data = IpApiResponse.parse(res.data);
+
+    if (data.status !== "success") {
+      // e.g. "reserved range"; the address has no country
+      return null;
+    }
+    return data.countryCode || null;
+  },
+};
+
+const PROVIDERS: Record<string, GeoIpProvider> = {
+  [offlineProvider.name]: offlineProvider,
+  [ipApiProvider.name]: ipApiProvider,
+};
+
+/**
+ * Returns the provider chosen with `GEOIP_PROVIDER` (default `offline` with
+ * a database directory, else `ip-api`), or null when country resolution is
+ * disabled (`none`)
+ */
+export const getGeoIpProvider = (): GeoIpProvider | null => {
+  const name =
+    process.env.GEOIP_PROVIDER ||
+    (process.env.GEOIP_DATABASE_DIR ? offlineProvider.name : ipApiProvider.name);
+  if (name === "none") return null;
+
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    console.warn(`Unknown GeoIP provider "${name}", countries will not be resolved`);
+    return null;
+  }
+  return provider;
+};
@@ -0,0 +1,79 @@
+import { CountrySource } from "@prisma/client";
+import { TtlCache } from "@utils/ttlCache";
+import { formatIp, isPublicIp, parseIp } from "@utils/ipUtils";
+import { getGeoIpProvider } from "./geoIpProviders";
+
+/**
+ * GeoIP Service
+ *
+ * Resolves the country of a client IP (IPv4 or IPv6) through the configured
+ * provider. Private and otherwise non-public addresses are never looked
+ * up. Results, including "no country", are kept in an LRU cache; provider
+ * failures are not cached so the next request retries.
+ */
+
+const GEOIP_CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const GEOIP_CACHE_MAX_ENTRIES = 50_000;
+
+const countryCache = new TtlCache<string, string | null>(
+  GEOIP_CACHE_TTL_MS,
+  GEOIP_CACHE_MAX_ENTRIES
+);
+
+export interface CountryResolution {
+  country: string;
+  source: CountrySource;
+}
+
+/**
+ * Prepares the configured provider, e.g. loads the offline database
+ *
+ * Missing settings stop the server with a config error. Load failures are
+ * only logged: the server can run without countries.
+ */
+export const loadGeoIp = async (): Promise<void> => {
+  const provider = getGeoIpProvider();
+  provider?.checkConfig?.();
+  if (!provider?.load) return;
+
+  try {
+    await provider.load();
+  } catch (error) {
+    console.error(
+      `GeoIP provider "${provider.name}" failed to load; countries will not be resolved:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+};
+
+/**
+ * Resolves the country of an IP address
+ *
+ * @param ip - Client IP
+ * @returns Country and the provider that resolved it, or null if unknown
+ */
+export const resolveCountry = async (
+  ip: string
+): Promise<CountryResolution | null> => {
+  const provider = getGeoIpProvider();
+  const address = parseIp(ip);
+  if (!provider || !address || !isPublicIp(address)) return null;
+
+  const key = `${provider.name}:${formatIp(address)}`;
+  let country = countryCache.get(key);
+
+  if (country === undefined) {
+    try {
+      country = await provider.lookup(address);
+    } catch (error) {
+      console.error(
+        `GeoIP lookup failed (${provider.name}):`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+    countryCache.set(key, country);
+  }
+
+  return country ? { country, source: provider.source } : null;
+};
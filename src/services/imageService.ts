@@ -0,0 +1,276 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { invalidateAuthUser } from "./authStateService";
+import { getStorageAdapter } from "./storageAdapters";
+
+/**
+ * Image Service
+ *
+ * Processes uploaded profile images and stores them through the storage
+ * adapter:
+ * - The content is checked (the client's MIME type is not trusted)
+ * - Images are rotated upright from their EXIF orientation, then all
+ *   metadata (EXIF, GPS, ICC comments) is dropped
+ * - Each size is encoded as WebP, plus JPEG (or PNG when transparent) for
+ *   clients without WebP support
+ *
+ * The largest WebP becomes `profilePic`/`bannerPic`; every variant is kept
+ * in `profilePicVariants`/`bannerPicVariants`. Replaced images are deleted
+ * from storage.
+ */
+
+// Decompression bomb guard: width * height of the uploaded image
+const MAX_INPUT_PIXELS = 40_000_000;
+
+const ACCEPTED_FORMATS = new Set(["jpeg", "png", "webp", "gif", "avif", "heif"]);
+
+const WEBP_QUALITY = 82;
+const JPEG_QUALITY = 85;
+
+interface ImageSize {
+  name: string;
+  width: number;
+  height: number;
+}
+
+interface ProfileImageKind {
+  field: "profilePic" | "bannerPic";
+  variantsField: "profilePicVariants" | "bannerPicVariants";
+  directory: string;
+  maxBytes: number;
+  sizes: ImageSize[]; // largest first
+}
+
+export const PROFILE_IMAGE_KINDS = {
+  avatar: {
+    field: "profilePic",
+    variantsField: "profilePicVariants",
+    directory: "avatars",
+    maxBytes: 5 * 1024 * 1024, // 5 MB
+    sizes: [
+      { name: "large", width: 512, height: 512 },
+      { name: "medium", width: 256, height: 256 },
+      { name: "small", width: 128, height: 128 },
+    ],
+  },
+  banner: {
+    field: "bannerPic",
+    variantsField: "bannerPicVariants",
+    directory: "banners",
+    maxBytes: 10 * 1024 * 1024, // 10 MB
+    sizes: [
+      { name: "large", width: 1500, height: 500 },
+      { name: "small", width: 750, height: 250 },
+    ],
+  },
+} satisfies Record<string, ProfileImageKind>;
+
+export type ProfileImageKindName = keyof typeof PROFILE_IMAGE_KINDS;
+
+// A type rather than an interface, so variants are assignable to JSON columns
+export type StoredImageVariant = {
+  name: string;
+  format: "webp" | "jpeg" | "png";
+  width: number;
+  height: number;
+  key: string;
+  url: string;
+};
+
+interface EncodedImage {
+  name: string;
+  format: StoredImageVariant["format"];
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+const CONTENT_TYPES: Record<StoredImageVariant["format"], string> = {
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+  png: "image/png",
+};
+
+/**
+ * Checks an upload and encodes every size of it
+ *
+ * Animated images keep only their first frame.
+ */
+const encodeImage = async (
+  input: Buffer,
+  sizes: ImageSize[]
+): Promise<EncodedImage[]> => {
+  const options = { limitInputPixels: MAX_INPUT_PIXELS, failOn: "error" as const };
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input, options).metadata();
+  } catch {
+    throw new AppError(
+      "The file is not a readable image",
+      400,
+      ErrorAppCode.InvalidImage
+    );
+  }
+  if (!metadata.format || !ACCEPTED_FORMATS.has(metadata.format)) {
+    throw new AppError(
+      "Image must be JPEG, PNG, WebP, GIF, AVIF or HEIF",
+      415,
+      ErrorAppCode.InvalidImage,
+      { format: metadata.format ?? null }
+    );
+  }
+
+  const fallback = metadata.hasAlpha ? "png" : "jpeg";
+  const upright = sharp(input, options).rotate();
+
+  try {
+    const encoded: EncodedImage[] = [];
+    for (const size of sizes) {
+      const resized = upright.clone().resize({
+        width: size.width,
+        height: size.height,
+        fit: "cover",
+        withoutEnlargement: true,
+      });
+      const outputs = await Promise.all([
+        resized.clone().webp({ quality: WEBP_QUALITY }).toBuffer({ resolveWithObject: true }),
+        (fallback === "png"
+          ? resized.clone().png({ compressionLevel: 9 })
+          : resized.clone().jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+        ).toBuffer({ resolveWithObject: true }),
+      ]);
+      outputs.forEach(({ data, info }, index) => {
+        encoded.push({
+          name: size.name,
+          format: index === 0 ? "webp" : fallback,
+          width: info.width,
+          height: info.height,
+          data,
+        });
+      });
+    }
+    return encoded;
+  } catch (error) {
+    // Headers can parse while the pixel data is corrupt or too large
+    console.error("Image processing failed:", error);
+    throw new AppError(
+      "The image could not be processed",
+      400,
+      ErrorAppCode.InvalidImage
+    );
+  }
+};
+
+/**
+ * Returns the storage keys recorded in a variants column
+ */
+const variantKeys = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((variant) =>
+    variant &&
+    typeof variant === "object" &&
+    !Array.isArray(variant) &&
+    "key" in variant &&
+    typeof variant.key === "string"
+      ? [variant.key]
+      : []
+  );
+};
+
+/**
+ * Deletes stored files, logging rather than throwing on failure
+ *
+ * @param value - A variants column, as stored on the user
+ */
+export const deleteStoredImages = async (value: unknown): Promise<void> => {
+  const storage = getStorageAdapter();
+  const results = await Promise.allSettled(
+    variantKeys(value).map((key) => storage.delete(key))
+  );
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      console.error("Failed to delete stored image:", result.reason);
+    }
+  });
+};
+
+/**
+ * Processes and stores a new profile image, replacing the current one
+ *
+ * @param userId - Owner of the image
+ * @param kindName - avatar or banner
+ * @param input - Uploaded file contents
+ * @returns Public URL of the main image and every variant
+ */
+export const replaceProfileImage = async (
+  userId: number,
+  kindName: ProfileImageKindName,
+  input: Buffer
+): Promise<{ url: string; variants: StoredImageVariant[] }> => {
+  const kind: ProfileImageKind = PROFILE_IMAGE_KINDS[kindName];
+  const encoded = await encodeImage(input, kind.sizes);
+
+  const storage = getStorageAdapter();
+  const prefix = `${kind.directory}/${userId}/${crypto.randomUUID()}`;
+  const variants: StoredImageVariant[] = [];
+  try {
+    for (const image of encoded) {
+      const key = `${prefix}/${image.name}.${image.format}`;
+      const url = await storage.put(key, image.data, CONTENT_TYPES[image.format]);
+      const { data, ...details } = image;
+      variants.push({ ...details, key, url });
+    }
+  } catch (error) {
+    await deleteStoredImages(variants);
+    throw error;
+  }
+
+  // The first WebP is the largest size
+  const url = variants.find((variant) => variant.format === "webp")!.url;
+
+  const previous = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { profilePicVariants: true, bannerPicVariants: true },
+  });
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      [kind.field]: url,
+      [kind.variantsField]: variants,
+    },
+  });
+  invalidateAuthUser(userId);
+
+  await deleteStoredImages(previous?.[kind.variantsField]);
+
+  return { url, variants };
+};
+
+/**
+ * Removes a profile image and deletes its stored files
+ *
+ * @param userId - Owner of the image
+ * @param kindName - avatar or banner
+ */
+export const removeProfileImage = async (
+  userId: number,
+  kindName: ProfileImageKindName
+): Promise<void> => {
+  const kind: ProfileImageKind = PROFILE_IMAGE_KINDS[kindName];
+
+  const previous = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { profilePicVariants: true, bannerPicVariants: true },
+  });
+  await prisma.user.update({
+    where: { id: userId },
+    data: { [kind.field]: null, [kind.variantsField]: Prisma.DbNull },
+  });
+  invalidateAuthUser(userId);
+
+  await deleteStoredImages(previous?.[kind.variantsField]);
+};
@@ -0,0 +1,137 @@
+import { Prisma, ShelfKind, LibraryShelf } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+
+/**
+ * Library Service
+ *
+ * This service handles a user's personal library:
+ * - Default status shelves (Reading, Plan to read, Completed, Dropped)
+ * - Custom named lists
+ * - Placing series on shelves while keeping their order
+ *
+ * A series can sit on at most one status shelf at a time, so placing it on
+ * one removes it from the others. Custom lists have no such restriction.
+ */
+
+export const DEFAULT_SHELVES: { kind: ShelfKind; name: string }[] = [
+  { kind: ShelfKind.READING, name: "Reading" },
+  { kind: ShelfKind.PLAN_TO_READ, name: "Plan to read" },
+  { kind: ShelfKind.COMPLETED, name: "Completed" },
+  { kind: ShelfKind.DROPPED, name: "Dropped" },
+];
+
+/**
+ * Creates the default status shelves for a user if they are missing
+ *
+ * Shelves are matched by `defaultKind`, never by name.
+ *
+ * @param userId - User ID to create shelves for
+ */
+export const ensureDefaultShelves = async (userId: number): Promise<void> => {
+  const existing = await prisma.libraryShelf.count({
+    where: { userId, defaultKind: { not: null } },
+  });
+  if (existing >= DEFAULT_SHELVES.length) return;
+
+  await prisma.libraryShelf.createMany({
+    data: DEFAULT_SHELVES.map((shelf, position) => ({
+      ...shelf,
+      defaultKind: shelf.kind,
+      userId,
+      position,
+    })),
+    skipDuplicates: true,
+  });
+};
+
+/**
+ * Fills in `defaultKind` for default shelves created before it existed
+ *
+ * Each user had at most one shelf of each default kind, so this cannot
+ * clash.
+ */
+export const backfillDefaultShelfKinds = async (): Promise<void> => {
+  let updated = 0;
+  for (const { kind } of DEFAULT_SHELVES) {
+    const { count } = await prisma.libraryShelf.updateMany({
+      where: { kind, defaultKind: null },
+      data: { defaultKind: kind },
+    });
+    updated += count;
+  }
+
+  if (updated > 0) {
+    console.log(`Default shelf kinds backfilled for ${updated} shelves.`);
+  }
+};
+
+/**
+ * Finds one of the user's shelves
+ *
+ * @param userId - Owner of the shelf
+ * @param shelfId - Shelf ID
+ * @returns Shelf record
+ * @throws AppError if the shelf does not exist or belongs to someone else
+ */
+export const getUserShelf = async (
+  userId: number,
+  shelfId: number,
+  tx: Prisma.TransactionClient = prisma
+): Promise<LibraryShelf> => {
+  const shelf = await tx.libraryShelf.findFirst({
+    where: { id: shelfId, userId },
+  });
+  if (!shelf) {
+    throw new AppError("Shelf not found", 404, ErrorAppCode.ShelfNotFound);
+  }
+  return shelf;
+};
+
+/**
+ * Appends series to the end of a shelf
+ *
+ * Series already on the shelf keep their position. When the shelf is a
+ * status shelf, the series are removed from the user's other status shelves.
+ *
+ * @param tx - Transaction client
+ * @param shelf - Destination shelf
+ * @param seriesIds - Series to place, in the order to append them
+ */
+export const placeEntries = async (
+  tx: Prisma.TransactionClient,
+  shelf: LibraryShelf,
+  seriesIds: number[]
+): Promise<void> => {
+  if (shelf.kind !== ShelfKind.CUSTOM) {
+    await tx.libraryEntry.deleteMany({
+      where: {
+        seriesId: { in: seriesIds },
+        shelfId: { not: shelf.id },
+        shelf: { userId: shelf.userId, kind: { not: ShelfKind.CUSTOM } },
+      },
+    });
+  }
+
+  const existing = await tx.libraryEntry.findMany({
+    where: { shelfId: shelf.id, seriesId: { in: seriesIds } },
+    select: { seriesId: true },
+  });
+  const present = new Set(existing.map((entry) => entry.seriesId));
+  const toAdd = [...new Set(seriesIds)].filter((id) => !present.has(id));
+  if (toAdd.length === 0) return;
+
+  const last = await tx.libraryEntry.aggregate({
+    where: { shelfId: shelf.id },
+    _max: { position: true },
+  });
+  const start = (last._max.position ?? -1) + 1;
+
+  await tx.libraryEntry.createMany({
+    data: toAdd.map((seriesId, index) => ({
+      shelfId: shelf.id,
+      seriesId,
+      position: start + index,
+    })),
+  });
+};
@@ -0,0 +1,255 @@
+import { EmailStatus, Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import {
+  EMAIL_TEMPLATES,
+  EmailTemplateData,
+  EmailTemplateName,
+  apiUrl,
+  appUrl,
+  renderEmail,
+} from "./emailTemplates";
+import {
+  createUnsubscribeToken,
+  getEmailPreferences,
+} from "./emailPreferenceService";
+import { getEmailTransport } from "./emailTransports";
+
+/**
+ * Mailer Service
+ *
+ * Emails are rendered when queued and stored in the outbox, so a request
+ * never waits on (or fails because of) the mail server. A background
+ * worker sends due emails through the configured transport, retrying
+ * failures with exponential backoff until `MAX_ATTEMPTS`, after which the
+ * email is marked FAILED.
+ *
+ * Emails to users respect their email preferences; see the email
+ * preference service.
+ */
+
+const MAX_ATTEMPTS = 6;
+
+// First retry after a minute, doubling up to an hour
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// How often the worker looks for due emails
+const OUTBOX_POLL_INTERVAL_MS = 15 * 1000;
+
+// Emails sent per run
+const OUTBOX_BATCH_SIZE = 50;
+
+// Emails claimed longer ago than this are assumed lost with a crashed worker
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Returns the wait before the next attempt, after `attempts` failures
+ *
+ * Jittered by up to 20% so emails failing together don't retry together.
+ */
+const retryDelay = (attempts: number): number => {
+  const delay = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+    MAX_RETRY_DELAY_MS
+  );
+  return delay * (1 + Math.random() * 0.2);
+};
+
+/**
+ * Queues an email to any address
+ *
+ * For emails without a category, e.g. to people on the waitlist.
+ *
+ * @param to - Recipient address
+ * @param name - Template to render
+ * @param data - Values for the template
+ */
+export const queueEmail = async <N extends EmailTemplateName>(
+  to: string,
+  name: N,
+  data: EmailTemplateData<N>
+): Promise<void> => {
+  const { subject, html, text } = renderEmail(name, data);
+  await prisma.emailOutbox.create({
+    data: { to, template: name, subject, html, text },
+  });
+};
+
+/**
+ * Queues an email to a user, unless they opted out of its category
+ *
+ * Emails in a category get an unsubscribe link and the one-click
+ * `List-Unsubscribe` headers. The user's first name is filled in.
+ *
+ * @param userId - Recipient
+ * @param name - Template to render
+ * @param data - Values for the template, other than the first name
+ * @returns True if queued
+ */
+export const queueUserEmail = async <N extends EmailTemplateName>(
+  userId: number,
+  name: N,
+  data: Omit<EmailTemplateData<N>, "firstName">
+): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, firstName: true },
+  });
+  if (!user) return false;
+
+  const { category } = EMAIL_TEMPLATES[name];
+  let unsubscribeUrl: string | undefined;
+  let oneClickUrl: string | undefined;
+  if (category) {
+    const preferences = await getEmailPreferences(userId);
+    if (!preferences[category]) return false;
+
+    // People land on the frontend; mail clients POST to the API directly
+    const token = createUnsubscribeToken(userId, category);
+    unsubscribeUrl = appUrl(`/unsubscribe?token=${token}`);
+    oneClickUrl = apiUrl(`/api/v1/email/unsubscribe?token=${token}`);
+  }
+
+  const { subject, html, text } = renderEmail(
+    name,
+    { ...data, firstName: user.firstName } as EmailTemplateData<N>,
+    unsubscribeUrl
+  );
+  await prisma.emailOutbox.create({
+    data: {
+      userId,
+      to: user.email,
+      template: name,
+      subject,
+      html,
+      text,
+      headers: oneClickUrl
+        ? {
+            "List-Unsubscribe": `<${oneClickUrl}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+          }
+        : undefined,
+    },
+  });
+  return true;
+};
+
+/**
+ * Queues an email without letting a failure reach the caller
+ *
+ * For emails sent alongside another action, which should not fail
+ * because the email could not be queued.
+ *
+ * @param queue - Queues the email
+ */
+export const queueEmailSafely = (queue: () => Promise<unknown>): Promise<void> =>
+  queue()
+    .then(() => undefined)
+    .catch((error) => console.error("Failed to queue email:", error));
+
+/**
+ * Sends one claimed email, recording the outcome
+ */
+const deliver = async (email: {
+  id: number;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers: Prisma.JsonValue;
+  attempts: number;
+}): Promise<boolean> => {
+  const attempts = email.attempts + 1;
+  try {
+    await getEmailTransport().send({
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: (email.headers as Record<string, string> | null) ?? undefined,
+    });
+    await prisma.emailOutbox.update({
+      where: { id: email.id },
+      data: { status: EmailStatus.SENT, attempts, sentAt: new Date(), lastError: null },
+    });
+    return true;
+  } catch (error) {
+    const failed = attempts >= MAX_ATTEMPTS;
+    await prisma.emailOutbox.update({
+      where: { id: email.id },
+      data: {
+        status: failed ? EmailStatus.FAILED : EmailStatus.PENDING,
+        attempts,
+        nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+        lastError: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+      },
+    });
+    if (failed) console.error(`Email ${email.id} failed after ${attempts} attempts:`, error);
+    return false;
+  }
+};
+
+/**
+ * Sends emails that are due
+ *
+ * Each email is claimed before sending, so several workers never send the
+ * same one.
+ *
+ * @returns Number of emails sent
+ */
+export const processOutbox = async (): Promise<number> => {
+  const now = new Date();
+
+  // Release emails left claimed by a worker that stopped mid-send
+  await prisma.emailOutbox.updateMany({
+    where: {
+      status: EmailStatus.SENDING,
+      updatedAt: { lt: new Date(now.getTime() - SENDING_TIMEOUT_MS) },
+    },
+    data: { status: EmailStatus.PENDING },
+  });
+
+  const due = await prisma.emailOutbox.findMany({
+    where: { status: EmailStatus.PENDING, nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: OUTBOX_BATCH_SIZE,
+    select: {
+      id: true,
+      to: true,
+      subject: true,
+      html: true,
+      text: true,
+      headers: true,
+      attempts: true,
+    },
+  });
+
+  let sent = 0;
+  for (const email of due) {
+    const { count } = await prisma.emailOutbox.updateMany({
+      where: { id: email.id, status: EmailStatus.PENDING },
+      data: { status: EmailStatus.SENDING },
+    });
+    if (count === 0) continue;
+
+    if (await deliver(email)) sent++;
+  }
+  return sent;
+};
+
+/**
+ * Runs the outbox worker periodically in the background
+ */
+export const startOutboxWorker = (): void => {
+  let running = false;
+  setInterval(() => {
+    // A slow mail server must not stack up runs
+    if (running) return;
+    running = true;
+    processOutbox()
+      .catch((error) => console.error("Email outbox worker failed:", error))
+      .finally(() => {
+        running = false;
+      });
+  }, OUTBOX_POLL_INTERVAL_MS).unref();
+};
@@ -0,0 +1,294 @@
+import { Chapter, NotificationType, Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { getPublishedChapterFilter } from "@utils/chapterUtils";
+
+/**
+ * Notification Service
+ *
+ * Domain events become in-app notifications:
+ * - NEW_CHAPTER: a chapter in a series in the user's library (except the
+ *   dropped shelf) was published; mature chapters only reach users with
+ *   mature content on. New chapters are marked `notifyPending`, and
+ *   followers are told once it is published (right away if it has no
+ *   `publishedAt`), by the chapter controller or a background job
+ * - AGE_VERIFICATION_DECISION: their verification request was decided
+ * - ROLE_CHANGED: an admin changed their role
+ * - SECURITY_ALERT: a security event was recorded for them
+ *
+ * Users can turn each type off; notifications of a type they turned off
+ * are never created. Replies to comments will join once comments exist.
+ */
+
+export const NOTIFICATION_TYPES = Object.values(NotificationType);
+
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export interface NotificationContent {
+  title: string;
+  body?: string;
+  link?: string; // path in the app
+  data?: Prisma.InputJsonObject;
+}
+
+// Followers notified per query and insert
+const FAN_OUT_BATCH_SIZE = 1000;
+
+// How often the job looks for chapters that have just been published
+const CHAPTER_JOB_INTERVAL_MS = 60 * 1000;
+
+// Chapters announced per run
+const CHAPTER_JOB_BATCH_SIZE = 100;
+
+/**
+ * Returns which notification types a user receives
+ */
+export const getNotificationPreferences = async (
+  userId: number
+): Promise<NotificationPreferences> => {
+  const disabled = await prisma.notificationPreference.findMany({
+    where: { userId, enabled: false },
+    select: { type: true },
+  });
+  const off = new Set(disabled.map(({ type }) => type));
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, !off.has(type)])
+  ) as NotificationPreferences;
+};
+
+/**
+ * Turns notification types on or off
+ *
+ * @returns The preferences after the change
+ */
+export const updateNotificationPreferences = async (
+  userId: number,
+  changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> => {
+  await prisma.$transaction(
+    Object.entries(changes).map(([type, enabled]) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type: type as NotificationType } },
+        update: { enabled },
+        create: { userId, type: type as NotificationType, enabled },
+      })
+    )
+  );
+  return getNotificationPreferences(userId);
+};
+
+/**
+ * Notifies a user, unless they turned the type off
+ *
+ * @returns True if the notification was created
+ */
+export const notifyUser = async (
+  userId: number,
+  type: NotificationType,
+  content: NotificationContent
+): Promise<boolean> => {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId_type: { userId, type } },
+    select: { enabled: true },
+  });
+  if (preference && !preference.enabled) return false;
+
+  await prisma.notification.create({ data: { userId, type, ...content } });
+  return true;
+};
+
+/**
+ * Creates a notification without letting a failure reach the caller
+ *
+ * For notifications created alongside another action, which should not
+ * fail because of them.
+ *
+ * @param notify - Creates the notification
+ */
+export const notifySafely = (notify: () => Promise<unknown>): Promise<void> =>
+  notify()
+    .then(() => undefined)
+    .catch((error) => console.error("Failed to create notification:", error));
+
+/**
+ * Notifies everyone following a series about a new chapter
+ *
+ * @param chapter - The new chapter
+ * @returns Number of users notified
+ */
+const notifyNewChapter = async (
+  chapter: Pick<Chapter, "id" | "seriesId" | "number" | "title" | "nsfw">
+): Promise<number> => {
+  const series = await prisma.series.findUnique({
+    where: { id: chapter.seriesId },
+    select: { id: true, title: true, nsfw: true },
+  });
+  if (!series) return 0;
+
+  const where: Prisma.UserWhereInput = {
+    libraryShelves: {
+      some: { kind: { not: "DROPPED" }, entries: { some: { seriesId: series.id } } },
+    },
+    notificationPreferences: {
+      none: { type: NotificationType.NEW_CHAPTER, enabled: false },
+    },
+    // Turned off automatically when a user loses access to mature content
+    ...(series.nsfw || chapter.nsfw ? { nsfwEnabled: true } : {}),
+  };
+
+  const content = {
+    type: NotificationType.NEW_CHAPTER,
+    title: `New chapter of ${series.title}`.slice(0, 255),
+    body: `Chapter ${chapter.number}${chapter.title ? `: ${chapter.title}` : ""}`,
+    link: `/chapters/${chapter.id}`,
+    data: { seriesId: series.id, chapterId: chapter.id },
+  };
+
+  let notified = 0;
+  let cursor: number | undefined;
+  for (;;) {
+    const followers = await prisma.user.findMany({
+      where,
+      orderBy: { id: "asc" },
+      take: FAN_OUT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: { id: true },
+    });
+    if (followers.length === 0) break;
+
+    const { count } = await prisma.notification.createMany({
+      data: followers.map(({ id }) => ({ userId: id, ...content })),
+    });
+    notified += count;
+    cursor = followers[followers.length - 1].id;
+  }
+  return notified;
+};
+
+/**
+ * Notifies followers about a chapter, if it is published and they haven't
+ * been told yet
+ *
+ * The chapter is claimed first, so followers are told only once.
+ *
+ * @param chapterId - Chapter to announce
+ * @returns Number of users notified
+ */
+export const notifyChapterIfPublished = async (chapterId: number): Promise<number> => {
+  const { count } = await prisma.chapter.updateMany({
+    where: { id: chapterId, notifyPending: true, ...getPublishedChapterFilter() },
+    data: { notifyPending: false },
+  });
+  if (count === 0) return 0;
+
+  const chapter = await prisma.chapter.findUniqueOrThrow({
+    where: { id: chapterId },
+    select: { id: true, seriesId: true, number: true, title: true, nsfw: true },
+  });
+  return notifyNewChapter(chapter);
+};
+
+/**
+ * Announces chapters that have been published since the last run
+ *
+ * A failure for one chapter is logged; its followers are not told.
+ *
+ * @returns Number of chapters announced
+ */
+export const processPublishedChapters = async (): Promise<number> => {
+  const due = await prisma.chapter.findMany({
+    where: { notifyPending: true, ...getPublishedChapterFilter() },
+    orderBy: { publishedAt: "asc" },
+    take: CHAPTER_JOB_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let announced = 0;
+  for (const { id } of due) {
+    try {
+      await notifyChapterIfPublished(id);
+      announced++;
+    } catch (error) {
+      console.error(`Failed to announce chapter ${id}:`, error);
+    }
+  }
+  return announced;
+};
+
+/**
+ * Runs the chapter announcement job periodically in the background
+ */
+export const startChapterNotificationJob = (): void => {
+  setInterval(() => {
+    processPublishedChapters().catch((error) =>
+      console.error("Chapter notification job failed:", error)
+    );
+  }, CHAPTER_JOB_INTERVAL_MS).unref();
+};
+
+export interface ListNotificationsOptions {
+  limit: number;
+  cursor?: number;
+  unread?: boolean;
+}
+
+/**
+ * Lists a user's notifications, newest first
+ *
+ * @returns The page and the cursor for the next one, null on the last page
+ */
+export const listNotifications = async (
+  userId: number,
+  { limit, cursor, unread }: ListNotificationsOptions
+) => {
+  const notifications = await prisma.notification.findMany({
+    where: {
+      userId,
+      ...(unread === undefined ? {} : { readAt: unread ? null : { not: null } }),
+    },
+    orderBy: { id: "desc" },
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    omit: { userId: true },
+  });
+
+  const hasMore = notifications.length > limit;
+  const items = hasMore ? notifications.slice(0, limit) : notifications;
+  return {
+    notifications: items,
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+  };
+};
+
+export const countUnreadNotifications = (userId: number): Promise<number> =>
+  prisma.notification.count({ where: { userId, readAt: null } });
+
+/**
+ * Marks some of a user's notifications as read
+ *
+ * IDs of other users' notifications are ignored.
+ *
+ * @returns Number of notifications newly marked
+ */
+export const markNotificationsRead = async (
+  userId: number,
+  ids: number[]
+): Promise<number> => {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, id: { in: ids }, readAt: null },
+    data: { readAt: new Date() },
+  });
+  return count;
+};
+
+/**
+ * Marks all of a user's notifications as read
+ *
+ * @returns Number of notifications newly marked
+ */
+export const markAllNotificationsRead = async (userId: number): Promise<number> => {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, readAt: null },
+    data: { readAt: new Date() },
+  });
+  return count;
+};
@@ -0,0 +1,105 @@
+import { prisma } from "@libs/prisma";
+import {
+  DEFAULT_MINIMUM_AGE,
+  NSFWPolicySnapshot,
+  computeUserBand,
+  loadNSFWPolicySnapshot,
+} from "@utils/contentFilter";
+import { NSFWPolicyDryRun } from "@schemas/nsfwPolicySchema";
+
+/**
+ * NSFW Policy Service
+ *
+ * Evaluates proposed NSFW policy changes against the current user base
+ * before they are applied.
+ */
+
+// Users loaded per query while simulating
+const SIMULATION_BATCH_SIZE = 1000;
+
+type Band = 1 | 2 | 3;
+
+export interface PolicySimulation {
+  usersEvaluated: number;
+  changed: number;
+  // e.g. { "3->1": 12 }
+  transitions: Record<string, number>;
+  // Users with NSFW enabled who would drop to band 1
+  nsfwEnabledLosingAccess: number;
+  bandsBefore: Record<Band, number>;
+  bandsAfter: Record<Band, number>;
+}
+
+/**
+ * Applies a proposal on top of the current policy
+ */
+const applyProposal = (
+  current: NSFWPolicySnapshot | null,
+  proposal: NSFWPolicyDryRun
+): NSFWPolicySnapshot => ({
+  band2Enabled: proposal.band2Enabled ?? current?.band2Enabled ?? false,
+  minimumAge: proposal.minimumAge ?? current?.minimumAge ?? DEFAULT_MINIMUM_AGE,
+  restrictions: proposal.restrictedCountries
+    ? new Map(proposal.restrictedCountries.map((r) => [r.country, r.band]))
+    : current?.restrictions ?? new Map(),
+  minimumAges: proposal.countryMinimumAges
+    ? new Map(proposal.countryMinimumAges.map((m) => [m.country, m.minimumAge]))
+    : current?.minimumAges ?? new Map(),
+});
+
+/**
+ * Reports how users' bands would change under a proposed policy
+ *
+ * Nothing is written; users are read in batches.
+ *
+ * @param proposal - Policy fields and country lists to change
+ * @returns Counts of band changes
+ */
+export const simulatePolicyChange = async (
+  proposal: NSFWPolicyDryRun
+): Promise<PolicySimulation> => {
+  const current = await loadNSFWPolicySnapshot();
+  const proposed = applyProposal(current, proposal);
+
+  const result: PolicySimulation = {
+    usersEvaluated: 0,
+    changed: 0,
+    transitions: {},
+    nsfwEnabledLosingAccess: 0,
+    bandsBefore: { 1: 0, 2: 0, 3: 0 },
+    bandsAfter: { 1: 0, 2: 0, 3: 0 },
+  };
+
+  let cursor: number | undefined;
+  for (;;) {
+    const users = await prisma.user.findMany({
+      orderBy: { id: "asc" },
+      take: SIMULATION_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: { id: true, birthday: true, country: true, nsfwEnabled: true },
+    });
+    if (users.length === 0) break;
+
+    users.forEach((user) => {
+      const before = computeUserBand(user, current).band;
+      const after = computeUserBand(user, proposed).band;
+
+      result.usersEvaluated++;
+      result.bandsBefore[before]++;
+      result.bandsAfter[after]++;
+
+      if (before !== after) {
+        const key = `${before}->${after}`;
+        result.changed++;
+        result.transitions[key] = (result.transitions[key] ?? 0) + 1;
+        if (after === 1 && user.nsfwEnabled) {
+          result.nsfwEnabledLosingAccess++;
+        }
+      }
+    });
+
+    cursor = users[users.length - 1].id;
+  }
+
+  return result;
+};
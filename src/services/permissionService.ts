@@ -0,0 +1,173 @@
+import { prisma } from "@libs/prisma";
+import { TtlCache } from "@utils/ttlCache";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { PERMISSIONS } from "@utils/permissionUtils";
+
+/**
+ * Permission Service
+ *
+ * Resolves a user's effective permissions: the permissions of their role,
+ * plus their own grants, minus their own denials (a denial always wins).
+ *
+ * Role and user permissions are cached in-process for a few seconds, like
+ * the auth state; local changes clear the cache immediately.
+ */
+
+const PERMISSION_CACHE_TTL_MS = 10 * 1000; // 10 seconds
+
+interface PermissionOverrides {
+  granted: string[];
+  denied: string[];
+}
+
+const rolePermissionCache = new TtlCache<number, string[]>(
+  PERMISSION_CACHE_TTL_MS
+);
+const userOverrideCache = new TtlCache<number, PermissionOverrides>(
+  PERMISSION_CACHE_TTL_MS
+);
+
+/**
+ * Adds any permission in the code catalogue that is missing from the
+ * database, and keeps descriptions up to date
+ *
+ * Permissions no longer in the catalogue are left alone so that grants
+ * survive a rollback.
+ */
+export const syncPermissions = async (): Promise<void> => {
+  const catalogue = Object.values(PERMISSIONS);
+
+  await prisma.$transaction(
+    catalogue.map(({ key, description }) =>
+      prisma.permission.upsert({
+        where: { key },
+        update: { description },
+        create: { key, description },
+      })
+    )
+  );
+};
+
+/**
+ * Returns the permission keys of a role
+ *
+ * @param roleId - Role ID
+ * @returns Permission keys granted to every user of the role
+ */
+export const getRolePermissions = async (roleId: number): Promise<string[]> => {
+  const cached = rolePermissionCache.get(roleId);
+  if (cached) return cached;
+
+  const rows = await prisma.rolePermission.findMany({
+    where: { roleId },
+    select: { permission: { select: { key: true } } },
+  });
+  const keys = rows.map((row) => row.permission.key);
+
+  rolePermissionCache.set(roleId, keys);
+  return keys;
+};
+
+/**
+ * Returns a user's own grants and denials
+ *
+ * @param userId - User ID
+ * @returns Granted and denied permission keys
+ */
+const getUserOverrides = async (
+  userId: number
+): Promise<PermissionOverrides> => {
+  const cached = userOverrideCache.get(userId);
+  if (cached) return cached;
+
+  const rows = await prisma.userPermission.findMany({
+    where: { userId },
+    select: { granted: true, permission: { select: { key: true } } },
+  });
+  const overrides = {
+    granted: rows.filter((row) => row.granted).map((row) => row.permission.key),
+    denied: rows.filter((row) => !row.granted).map((row) => row.permission.key),
+  };
+
+  userOverrideCache.set(userId, overrides);
+  return overrides;
+};
+
+/**
+ * Returns every permission a user currently has
+ *
+ * @param user - User with their role ID
+ * @returns Sorted permission keys
+ */
+export const getEffectivePermissions = async (user: {
+  id: number;
+  roleId: number;
+}): Promise<string[]> => {
+  const [rolePermissions, overrides] = await Promise.all([
+    getRolePermissions(user.roleId),
+    getUserOverrides(user.id),
+  ]);
+
+  const denied = new Set(overrides.denied);
+  const effective = new Set(
+    [...rolePermissions, ...overrides.granted].filter((key) => !denied.has(key))
+  );
+
+  return [...effective].sort();
+};
+
+/**
+ * Checks whether a user has every one of the given permissions
+ *
+ * @param user - User with their role ID
+ * @param keys - Required permission keys
+ * @returns True if the user has all of them
+ */
+export const hasPermissions = async (
+  user: { id: number; roleId: number },
+  keys: string[]
+): Promise<boolean> => {
+  const effective = new Set(await getEffectivePermissions(user));
+  return keys.every((key) => effective.has(key));
+};
+
+/**
+ * Throws unless the actor has every permission they are handing out or
+ * taking away, so nobody can grant more than they hold
+ *
+ * @param actor - User making the change
+ * @param keys - Permission keys being changed
+ */
+export const assertCanDelegate = async (
+  actor: { id: number; roleId: number },
+  keys: string[]
+): Promise<void> => {
+  const held = new Set(await getEffectivePermissions(actor));
+  const missing = keys.filter((key) => !held.has(key));
+  if (missing.length > 0) {
+    throw new AppError(
+      "Cannot change permissions you do not have",
+      403,
+      ErrorAppCode.InsufficientPermissions,
+      { permissions: missing }
+    );
+  }
+};
+
+/**
+ * Drops a role's permissions from the cache after they changed
+ *
+ * @param roleId - Role ID to forget
+ */
+export const invalidateRolePermissions = (roleId: number): void => {
+  rolePermissionCache.delete(roleId);
+};
+
+/**
+ * Drops a user's grants and denials from the cache after they changed
+ *
+ * @param userId - User ID to forget
+ */
+export const invalidateUserPermissions = (userId: number): void => {
+  userOverrideCache.delete(userId);
+};
@@ -0,0 +1,186 @@
+import { Prisma, ProfileVisibility, ShelfKind, User } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { isUserSuspended } from "@utils/userUtils";
+import { normaliseUsername } from "@utils/usernameUtils";
+
+/**
+ * Public Profile Service
+ *
+ * Builds what other people see at `/users/:username`. Only the columns in
+ * `publicUserSelect` are ever read, so private fields (email, Google ID,
+ * birthday, country, ...) cannot end up in a public profile; each part of
+ * the profile is then shown or hidden by the owner's privacy settings.
+ */
+
+export const PROFILE_PRIVACY_FIELDS = [
+  "bio",
+  "avatar",
+  "banner",
+  "colorTheme",
+  "joinedAt",
+  "library",
+  "stats",
+] as const;
+
+export type ProfilePrivacyField = (typeof PROFILE_PRIVACY_FIELDS)[number];
+export type ProfilePrivacySettings = Record<ProfilePrivacyField, ProfileVisibility>;
+
+// Matches the column defaults of ProfilePrivacy
+export const DEFAULT_PROFILE_PRIVACY: ProfilePrivacySettings = {
+  bio: ProfileVisibility.PUBLIC,
+  avatar: ProfileVisibility.PUBLIC,
+  banner: ProfileVisibility.PUBLIC,
+  colorTheme: ProfileVisibility.PUBLIC,
+  joinedAt: ProfileVisibility.PUBLIC,
+  library: ProfileVisibility.PUBLIC,
+  stats: ProfileVisibility.PRIVATE,
+};
+
+// The only user columns a public profile may be built from
+const publicUserSelect = {
+  id: true,
+  username: true,
+  bio: true,
+  profilePic: true,
+  bannerPic: true,
+  colorTheme: true,
+  createdAt: true,
+  suspendedAt: true,
+  suspendedUntil: true,
+  deletionScheduledFor: true,
+  profilePrivacy: true,
+} satisfies Prisma.UserSelect;
+
+export type PublicProfileUser = Prisma.UserGetPayload<{
+  select: typeof publicUserSelect;
+}>;
+
+/**
+ * Returns a user's privacy settings, or the defaults if never set
+ */
+export const getProfilePrivacy = async (
+  userId: number
+): Promise<ProfilePrivacySettings> => {
+  const privacy = await prisma.profilePrivacy.findUnique({ where: { userId } });
+  return pickPrivacy(privacy);
+};
+
+const pickPrivacy = (
+  privacy: Partial<ProfilePrivacySettings> | null
+): ProfilePrivacySettings =>
+  Object.fromEntries(
+    PROFILE_PRIVACY_FIELDS.map((field) => [
+      field,
+      privacy?.[field] ?? DEFAULT_PROFILE_PRIVACY[field],
+    ])
+  ) as ProfilePrivacySettings;
+
+/**
+ * Finds a user by username (case-insensitively) for their public profile
+ *
+ * Profiles of suspended users, and of accounts scheduled for deletion,
+ * are hidden.
+ *
+ * @returns The user, or null if there is no visible user with the username
+ */
+export const findPublicProfileUser = async (
+  username: string
+): Promise<PublicProfileUser | null> => {
+  const user = await prisma.user.findUnique({
+    where: { usernameKey: normaliseUsername(username) },
+    select: publicUserSelect,
+  });
+  return user && !isUserSuspended(user) && !user.deletionScheduledFor
+    ? user
+    : null;
+};
+
+/**
+ * Returns which parts of a profile a viewer may see
+ *
+ * The owner sees everything.
+ *
+ * @param user - Profile owner
+ * @param viewer - Signed-in viewer, if any
+ */
+export const getVisibleFields = (
+  user: PublicProfileUser,
+  viewer: Pick<User, "id"> | undefined
+): Record<ProfilePrivacyField, boolean> => {
+  const privacy = pickPrivacy(user.profilePrivacy);
+  const isOwner = viewer?.id === user.id;
+
+  return Object.fromEntries(
+    PROFILE_PRIVACY_FIELDS.map((field) => [
+      field,
+      isOwner ||
+        privacy[field] === ProfileVisibility.PUBLIC ||
+        (privacy[field] === ProfileVisibility.USERS && !!viewer),
+    ])
+  ) as Record<ProfilePrivacyField, boolean>;
+};
+
+/**
+ * Builds the public projection of a profile
+ *
+ * Hidden fields are null, and hidden sections (shelves, stats) are
+ * omitted, so clients can tell them apart from empty ones.
+ *
+ * @param user - Profile owner
+ * @param viewer - Signed-in viewer, if any
+ * @param matureFilter - Excludes mature series the viewer cannot see
+ */
+export const buildPublicProfile = async (
+  user: PublicProfileUser,
+  viewer: Pick<User, "id"> | undefined,
+  matureFilter: { nsfw?: false }
+) => {
+  const visible = getVisibleFields(user, viewer);
+  const isOwner = viewer?.id === user.id;
+
+  const shelves =
+    visible.library || visible.stats
+      ? await prisma.libraryShelf.findMany({
+          where: { userId: user.id },
+          orderBy: [{ position: "asc" }, { id: "asc" }],
+          select: {
+            id: true,
+            name: true,
+            kind: true,
+            isPublic: true,
+            _count: { select: { entries: { where: { series: matureFilter } } } },
+          },
+        })
+      : [];
+
+  const countOf = (kind: ShelfKind) =>
+    shelves
+      .filter((shelf) => shelf.kind === kind)
+      .reduce((sum, shelf) => sum + shelf._count.entries, 0);
+
+  return {
+    username: user.username,
+    bio: visible.bio ? user.bio : null,
+    profilePic: visible.avatar ? user.profilePic : null,
+    bannerPic: visible.banner ? user.bannerPic : null,
+    colorTheme: visible.colorTheme ? user.colorTheme : null,
+    joinedAt: visible.joinedAt ? user.createdAt : null,
+    ...(visible.library && {
+      shelves: shelves
+        .filter((shelf) => isOwner || shelf.isPublic)
+        .map(({ _count, ...shelf }) => ({ ...shelf, count: _count.entries })),
+    }),
+    ...(visible.stats && {
+      stats: {
+        // Status shelves are exclusive, so each series counts once
+        series: shelves
+          .filter((shelf) => shelf.kind !== ShelfKind.CUSTOM)
+          .reduce((sum, shelf) => sum + shelf._count.entries, 0),
+        reading: countOf(ShelfKind.READING),
+        completed: countOf(ShelfKind.COMPLETED),
+        planToRead: countOf(ShelfKind.PLAN_TO_READ),
+        dropped: countOf(ShelfKind.DROPPED),
+      },
+    }),
+  };
+};
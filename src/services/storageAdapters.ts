@@ -0,0 +1,96 @@
+import fs from "fs/promises";
+import path from "path";
+import express, { RequestHandler } from "express";
+
+/**
+ * Storage Adapters
+ *
+ * An adapter stores uploaded files under a key (e.g.
+ * `avatars/12/<id>/256.webp`) and returns the public URL of each file.
+ * Keys are generated by the server, never taken from clients.
+ *
+ * The adapter is chosen with `STORAGE_DRIVER`:
+ * - `local` (default): files under `UPLOAD_DIR`, served by this server at
+ *   `/uploads` (or linked through `UPLOAD_PUBLIC_URL`, e.g. a CDN)
+ *
+ * To add an S3-compatible store, implement `StorageAdapter` and register
+ * it in `ADAPTERS`.
+ */
+
+export interface StorageAdapter {
+  name: string;
+  // Stores a file, replacing any file with the same key
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  // Deletes a file; missing files are ignored
+  delete(key: string): Promise<void>;
+  // For adapters whose files this server serves itself
+  serve?(): { path: string; handler: RequestHandler };
+}
+
+// Where this server serves local uploads from
+const LOCAL_UPLOAD_ROUTE = "/uploads";
+
+const uploadRoot = (): string => path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+/**
+ * Resolves a key inside the upload directory, refusing to escape it
+ */
+const resolveLocalKey = (key: string): string => {
+  const root = uploadRoot();
+  const file = path.resolve(root, key);
+  if (!file.startsWith(root + path.sep)) {
+    throw new Error(`Storage key escapes the upload directory: ${key}`);
+  }
+  return file;
+};
+
+const localAdapter: StorageAdapter = {
+  name: "local",
+  async put(key, body) {
+    const file = resolveLocalKey(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+
+    const publicUrl = process.env.UPLOAD_PUBLIC_URL || LOCAL_UPLOAD_ROUTE;
+    return `${publicUrl.replace(/\/+$/, "")}/${key}`;
+  },
+  async delete(key) {
+    await fs.rm(resolveLocalKey(key), { force: true });
+  },
+  serve() {
+    return {
+      path: LOCAL_UPLOAD_ROUTE,
+      handler: express.static(uploadRoot(), {
+        index: false,
+        dotfiles: "deny",
+        immutable: true, // keys are never reused
+        maxAge: "365d",
+        setHeaders: (res) => {
+          // Images are embedded by the frontend, which has another origin
+          res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+          res.setHeader("X-Content-Type-Options", "nosniff");
+        },
+      }),
+    };
+  },
+};
+
+const ADAPTERS: Record<string, StorageAdapter> = {
+  [localAdapter.name]: localAdapter,
+};
+
+/**
+ * Returns the adapter chosen with `STORAGE_DRIVER` (default `local`)
+ *
+ * Falls back to local storage if the driver is unknown.
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+  const name = process.env.STORAGE_DRIVER || localAdapter.name;
+  const adapter = ADAPTERS[name];
+
+  if (!adapter) {
+    console.warn(`Unknown storage driver "${name}", using local storage`);
+    return localAdapter;
+  }
+  return adapter;
+};
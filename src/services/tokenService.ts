@@ -1,7 +1,14 @@
+import { Prisma } from "@prisma/client";
 import { prisma } from "@libs/prisma";
 import { generateRefreshToken, setRefreshTokenCookie } from "@utils/jwtUtils";
-import { Response } from "express";
+import { Request, Response } from "express";
+import crypto from "crypto";
 import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { getClientIp, describeUserAgent } from "@utils/requestUtils";
+import { getCountryFromIp } from "@utils/contentFilter";
+import { invalidateSessions } from "./authStateService";
+import { queueEmailSafely, queueUserEmail } from "./mailerService";
+import { notifySafely, notifyUser } from "./notificationService";
 
 /**
  * Token Service
@@ -9,35 +16,90 @@ import { AppError, ErrorAppCode } from "@utils/errorHandler";
  * This service handles refresh token management including:
  * - Storage of refresh tokens in the database
  * - Token rotation for security
+ * - Sessions (devices) that survive rotation
+ * - Reuse detection across token families
  * - Cleanup of expired tokens
  *
  * Implements security best practices:
  * - One user can have multiple valid refresh tokens (multiple devices)
  * - Tokens are rotated whenever used for security
+ * - Only SHA-256 hashes of tokens are stored
+ * - Replaying a rotated token revokes its whole family (session) and
+ *   records a security event
  * - Expired tokens are automatically cleaned up
  * - Tokens are invalidated on logout
  */
 
 const REFRESH_TOKEN_EXPIRES_IN = 30 * 24 * 60 * 60; // 30 days in seconds
 
+/**
+ * Hashes a refresh token for storage and lookup
+ *
+ * @param token - Raw refresh token
+ * @returns Hex-encoded SHA-256 digest
+ */
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Device details of a session, carried over on every rotation
+ */
+export interface SessionContext {
+  sessionId?: string;
+  sessionStartedAt?: Date;
+  deviceLabel: string | null;
+  userAgent: string | null;
+  country: string | null;
+}
+
+/**
+ * Builds the session context for a new sign-in
+ *
+ * @param req - Express request object
+ * @returns Session context derived from the user agent and IP
+ */
+export const getSessionContext = async (
+  req: Request
+): Promise<SessionContext> => {
+  const userAgent = req.headers["user-agent"]?.slice(0, 500) ?? null;
+
+  return {
+    deviceLabel: describeUserAgent(userAgent ?? undefined),
+    userAgent,
+    country: await getCountryFromIp(getClientIp(req)),
+  };
+};
+
 /**
  * Stores a refresh token in the database
  *
  * @param userId - User ID associated with the token
  * @param token - Refresh token string
+ * @param session - Session the token belongs to; a new one is started if it has no ID
+ * @param tx - Transaction to store it in, if any
  * @returns Created refresh token record
  */
-export const storeRefreshToken = async (userId: number, token: string) => {
+export const storeRefreshToken = async (
+  userId: number,
+  token: string,
+  session: SessionContext,
+  tx: Prisma.TransactionClient = prisma
+) => {
   // Calculate expiration date (30 days from now)
   const expiresAt = new Date();
   expiresAt.setSeconds(expiresAt.getSeconds() + REFRESH_TOKEN_EXPIRES_IN);
 
-  // Store token in database
-  return await prisma.refreshToken.create({
+  // Store token hash in database
+  return await tx.refreshToken.create({
     data: {
-      token,
+      tokenHash: hashToken(token),
       userId,
       expiresAt,
+      sessionId: session.sessionId,
+      sessionStartedAt: session.sessionStartedAt,
+      deviceLabel: session.deviceLabel,
+      userAgent: session.userAgent,
+      country: session.country,
     },
   });
 };
@@ -47,14 +109,19 @@ export const storeRefreshToken = async (userId: number, token: string) => {
  *
  * @param userId - User ID to issue token for
  * @param res - Express response object to set cookie on
+ * @param session - Session the token belongs to
  * @returns Stored refresh token record
  */
-export const issueRefreshToken = async (userId: number, res: Response) => {
+export const issueRefreshToken = async (
+  userId: number,
+  res: Response,
+  session: SessionContext
+) => {
   // Generate new refresh token
   const token = generateRefreshToken(userId);
 
   // Store token in database
-  const storedToken = await storeRefreshToken(userId, token);
+  const storedToken = await storeRefreshToken(userId, token, session);
 
   // Set token as HttpOnly cookie
   setRefreshTokenCookie(res, token);
@@ -62,23 +129,90 @@ export const issueRefreshToken = async (userId: number, res: Response) => {
   return storedToken;
 };
 
+/**
+ * Revokes a token family after one of its rotated tokens was replayed
+ *
+ * Either the legitimate client or an attacker holds the newer token, and
+ * there is no telling which, so the whole session is ended, a security
+ * event is recorded for the user and they are alerted by email and
+ * notification.
+ *
+ * @param userId - Owner of the family
+ * @param sessionId - Family (session) to revoke
+ * @param req - Request that replayed the token
+ */
+const revokeReusedFamily = async (
+  userId: number,
+  sessionId: string,
+  req: Request
+): Promise<void> => {
+  const [, event] = await prisma.$transaction([
+    prisma.refreshToken.deleteMany({ where: { userId, sessionId } }),
+    prisma.securityEvent.create({
+      data: {
+        userId,
+        type: "REFRESH_TOKEN_REUSE",
+        sessionId,
+        ipAddress: getClientIp(req).slice(0, 45) || null,
+        userAgent: req.headers["user-agent"]?.slice(0, 500) ?? null,
+      },
+    }),
+  ]);
+  invalidateSessions([sessionId]);
+  await queueEmailSafely(() =>
+    queueUserEmail(userId, "security_alert", {
+      type: event.type,
+      occurredAt: event.createdAt,
+      ipAddress: event.ipAddress,
+    })
+  );
+  await notifySafely(() =>
+    notifyUser(userId, "SECURITY_ALERT", {
+      title: "One of your sessions was signed out",
+      body: "It was used from two places at once. If this wasn't you, sign out everywhere.",
+      link: "/settings/sessions",
+      data: { securityEventId: event.id },
+    })
+  );
+};
+
 /**
  * Rotates a refresh token for security
  *
+ * The new token keeps the session ID and device details of the old one,
+ * so the session stays the same from the user's point of view. The old
+ * token is kept, marked as rotated, until it expires so that replaying it
+ * can be detected.
+ *
  * @param oldToken - Existing refresh token to rotate
+ * @param req - Express request object, recorded if reuse is detected
  * @param res - Express response object to set new cookie on
- * @returns User ID associated with the token
+ * @returns User ID and session ID associated with the token
  */
-export const rotateRefreshToken = async (oldToken: string, res: Response) => {
+export const rotateRefreshToken = async (
+  oldToken: string,
+  req: Request,
+  res: Response
+) => {
   // Find token in database
   const tokenRecord = await prisma.refreshToken.findUnique({
-    where: { token: oldToken },
+    where: { tokenHash: hashToken(oldToken) },
   });
 
   if (!tokenRecord) {
     throw new AppError("Invalid refresh token", 401, ErrorAppCode.Unauthorised);
   }
 
+  // Check if token was already exchanged
+  if (tokenRecord.rotatedAt) {
+    await revokeReusedFamily(tokenRecord.userId, tokenRecord.sessionId, req);
+    throw new AppError(
+      "Refresh token reuse detected, session revoked",
+      401,
+      ErrorAppCode.RefreshTokenReused
+    );
+  }
+
   // Check if token is expired
   if (new Date() > tokenRecord.expiresAt) {
     // Delete expired token
@@ -88,29 +222,176 @@ export const rotateRefreshToken = async (oldToken: string, res: Response) => {
     throw new AppError("Refresh token expired", 401, ErrorAppCode.Unauthorised);
   }
 
-  // Delete old token for security
-  await prisma.refreshToken.delete({
-    where: { id: tokenRecord.id },
+  // Mark the old token as rotated and store the new one in the same
+  // session together, so a failed insert leaves the old token usable
+  const token = generateRefreshToken(tokenRecord.userId);
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Only succeeds once under concurrent refreshes
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: tokenRecord.id, rotatedAt: null },
+      data: { rotatedAt: new Date() },
+    });
+    if (count === 0) return false;
+
+    await storeRefreshToken(
+      tokenRecord.userId,
+      token,
+      {
+        sessionId: tokenRecord.sessionId,
+        sessionStartedAt: tokenRecord.sessionStartedAt,
+        deviceLabel: tokenRecord.deviceLabel,
+        userAgent: tokenRecord.userAgent,
+        country: tokenRecord.country,
+      },
+      tx
+    );
+    return true;
   });
+  if (!rotated) {
+    await revokeReusedFamily(tokenRecord.userId, tokenRecord.sessionId, req);
+    throw new AppError(
+      "Refresh token reuse detected, session revoked",
+      401,
+      ErrorAppCode.RefreshTokenReused
+    );
+  }
 
-  // Issue new token
-  await issueRefreshToken(tokenRecord.userId, res);
+  setRefreshTokenCookie(res, token);
 
-  return tokenRecord.userId;
+  return { userId: tokenRecord.userId, sessionId: tokenRecord.sessionId };
+};
+
+/**
+ * Returns the security events the user has not been told about yet, and
+ * marks them as notified
+ *
+ * @param userId - User ID to collect events for
+ * @returns Unnotified security events, oldest first
+ */
+export const collectSecurityAlerts = async (userId: number) => {
+  const events = await prisma.securityEvent.findMany({
+    where: { userId, notifiedAt: null },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      type: true,
+      ipAddress: true,
+      userAgent: true,
+      details: true,
+      createdAt: true,
+    },
+  });
+
+  if (events.length > 0) {
+    await prisma.securityEvent.updateMany({
+      where: { id: { in: events.map((event) => event.id) } },
+      data: { notifiedAt: new Date() },
+    });
+  }
+
+  return events;
+};
+
+/**
+ * Lists a user's active sessions, most recently used first
+ *
+ * @param userId - User ID to list sessions for
+ * @returns Session records (the live refresh token of each session)
+ */
+export const listSessions = async (userId: number) => {
+  return await prisma.refreshToken.findMany({
+    where: { userId, rotatedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: "desc" },
+    select: {
+      sessionId: true,
+      deviceLabel: true,
+      userAgent: true,
+      country: true,
+      sessionStartedAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+  });
+};
+
+/**
+ * Revokes one of a user's sessions
+ *
+ * @param userId - Owner of the session
+ * @param sessionId - Session to revoke
+ * @returns Number of revoked refresh tokens
+ */
+export const revokeSession = async (userId: number, sessionId: string) => {
+  const { count } = await prisma.refreshToken.deleteMany({
+    where: { userId, sessionId },
+  });
+  invalidateSessions([sessionId]);
+  return count;
+};
+
+/**
+ * Revokes all of a user's sessions except one
+ *
+ * @param userId - Owner of the sessions
+ * @param keepSessionId - Session to keep, usually the caller's
+ * @returns Number of revoked refresh tokens
+ */
+export const revokeOtherSessions = async (
+  userId: number,
+  keepSessionId: string
+) => {
+  const where = { userId, sessionId: { not: keepSessionId } };
+  const sessions = await prisma.refreshToken.findMany({
+    where,
+    select: { sessionId: true },
+    distinct: ["sessionId"],
+  });
+
+  const { count } = await prisma.refreshToken.deleteMany({ where });
+  invalidateSessions(sessions.map((session) => session.sessionId));
+  return count;
+};
+
+/**
+ * Revokes all of a user's sessions, signing them out everywhere
+ *
+ * @param userId - Owner of the sessions
+ * @returns Number of revoked refresh tokens
+ */
+export const revokeAllSessions = async (userId: number) => {
+  const sessions = await prisma.refreshToken.findMany({
+    where: { userId },
+    select: { sessionId: true },
+    distinct: ["sessionId"],
+  });
+
+  const { count } = await prisma.refreshToken.deleteMany({ where: { userId } });
+  invalidateSessions(sessions.map((session) => session.sessionId));
+  return count;
 };
 
 /**
  * Invalidates a refresh token on logout
  *
+ * Ends the token's whole session, including its rotated tokens.
+ *
  * @param token - Refresh token to invalidate
  * @param res - Express response object to clear cookie from
  */
 export const invalidateRefreshToken = async (token: string, res: Response) => {
-  // Remove token from database
-  await prisma.refreshToken.deleteMany({
-    where: { token },
+  const tokenRecord = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { userId: true, sessionId: true },
   });
 
+  // Remove the session's tokens from database
+  if (tokenRecord) {
+    await prisma.refreshToken.deleteMany({
+      where: { userId: tokenRecord.userId, sessionId: tokenRecord.sessionId },
+    });
+    invalidateSessions([tokenRecord.sessionId]);
+  }
+
   // Clear cookie
   res.clearCookie("refreshToken", {
     httpOnly: true,
@@ -0,0 +1,366 @@
+import { Prisma, ReservedUsername, ReservedUsernameMatch } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { TtlCache } from "@utils/ttlCache";
+import { normaliseUsername } from "@utils/usernameUtils";
+import { USERNAME_MAX_LENGTH, usernameSchema } from "@root/types/username";
+import { invalidateAuthUser } from "./authStateService";
+
+/**
+ * Username Service
+ *
+ * Usernames are unique regardless of case: `User.usernameKey` holds the
+ * lowercased name under a unique index, and every check goes through it.
+ * A username is unavailable when it is:
+ * - taken: another user has it
+ * - reserved: it matches a reserved name, or contains a blocked word
+ * - held: another user gave it up recently; old names keep redirecting to
+ *   the new one while held, so links don't go to someone else
+ *
+ * The first username (and one set again after an admin reset) is free;
+ * after that, changes are limited by a cooldown.
+ */
+
+export const USERNAME_CHANGE_COOLDOWN_DAYS = 30;
+export const USERNAME_HOLD_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Suggestions returned when a username is unavailable
+const SUGGESTION_COUNT = 5;
+
+export type UsernameUnavailableReason = "taken" | "reserved" | "held";
+
+export type UsernameAvailability =
+  | { available: true; reason: null }
+  | { available: false; reason: UsernameUnavailableReason };
+
+// The reserved list is small and read on every check
+const reservedCache = new TtlCache<"all", ReservedUsername[]>(60 * 1000, 1);
+
+const getReservedUsernames = async (): Promise<ReservedUsername[]> => {
+  const cached = reservedCache.get("all");
+  if (cached) return cached;
+
+  const reserved = await prisma.reservedUsername.findMany();
+  reservedCache.set("all", reserved);
+  return reserved;
+};
+
+/**
+ * Drops the cached reserved list; call after changing it
+ */
+export const invalidateReservedUsernames = (): void => {
+  reservedCache.clear();
+};
+
+/**
+ * Returns the reserved entry a username matches, if any
+ *
+ * Blocked words also match with underscores removed, so `bad_word` does
+ * not get around `badword`.
+ *
+ * @param key - Normalised username
+ */
+export const findReservedMatch = async (
+  key: string
+): Promise<ReservedUsername | null> => {
+  const reserved = await getReservedUsernames();
+  const squashed = key.replace(/_/g, "");
+
+  return (
+    reserved.find((entry) =>
+      entry.match === ReservedUsernameMatch.EXACT
+        ? entry.term === key
+        : key.includes(entry.term) || squashed.includes(entry.term)
+    ) ?? null
+  );
+};
+
+const holdCutoff = () => new Date(Date.now() - USERNAME_HOLD_DAYS * DAY_MS);
+
+/**
+ * Returns which of the given names are taken or held by someone else
+ *
+ * @param keys - Normalised usernames
+ * @param forUserId - User the names are for; their own names don't count
+ */
+const findUnavailableKeys = async (
+  keys: string[],
+  forUserId?: number
+): Promise<Map<string, "taken" | "held">> => {
+  const notMe = forUserId ? { not: forUserId } : undefined;
+  const [taken, held] = await Promise.all([
+    prisma.user.findMany({
+      where: { usernameKey: { in: keys }, id: notMe },
+      select: { usernameKey: true },
+    }),
+    prisma.usernameHistory.findMany({
+      where: {
+        usernameKey: { in: keys },
+        userId: notMe,
+        changedAt: { gt: holdCutoff() },
+      },
+      select: { usernameKey: true },
+    }),
+  ]);
+
+  const unavailable = new Map<string, "taken" | "held">();
+  held.forEach(({ usernameKey }) => unavailable.set(usernameKey, "held"));
+  taken.forEach(({ usernameKey }) => unavailable.set(usernameKey!, "taken"));
+  return unavailable;
+};
+
+/**
+ * Checks whether a username can be used
+ *
+ * The username must already be valid (see `usernameSchema`).
+ *
+ * @param username - Username to check
+ * @param forUserId - User who wants it, if known; their own current and
+ *   recent names count as available
+ */
+export const checkUsernameAvailability = async (
+  username: string,
+  forUserId?: number
+): Promise<UsernameAvailability> => {
+  const key = normaliseUsername(username);
+
+  if (await findReservedMatch(key)) {
+    return { available: false, reason: "reserved" };
+  }
+
+  const reason = (await findUnavailableKeys([key], forUserId)).get(key);
+  return reason ? { available: false, reason } : { available: true, reason: null };
+};
+
+/**
+ * Builds candidate usernames from a base, most natural first
+ */
+const buildCandidates = (base: string): string[] => {
+  // Trailing underscores would double up with the "_" suffixes
+  const stem = base.replace(/[^a-zA-Z0-9_]/g, "").replace(/_+$/, "") || "user";
+  const year = new Date().getFullYear();
+  const random = (digits: number) =>
+    String(Math.floor(Math.random() * 10 ** digits)).padStart(digits, "0");
+
+  const suffixes = [
+    "_",
+    String(year % 100),
+    String(year),
+    "_" + random(2),
+    random(2),
+    random(3),
+    "_" + random(3),
+    random(4),
+    "_" + random(4),
+    random(5),
+  ];
+
+  const candidates = suffixes.map(
+    (suffix) => stem.slice(0, USERNAME_MAX_LENGTH - suffix.length) + suffix
+  );
+  return [...new Set(candidates)].filter(
+    (candidate) => usernameSchema.safeParse(candidate).success
+  );
+};
+
+/**
+ * Suggests available usernames similar to one that is not
+ *
+ * Every suggestion is checked against taken, held and reserved names, so
+ * it was free at the time of the call.
+ *
+ * @param base - Username the user wanted
+ * @param forUserId - User the suggestions are for, if known
+ * @returns Up to five usernames
+ */
+export const suggestUsernames = async (
+  base: string,
+  forUserId?: number
+): Promise<string[]> => {
+  const candidates = buildCandidates(base);
+  const unavailable = await findUnavailableKeys(
+    candidates.map(normaliseUsername),
+    forUserId
+  );
+
+  const suggestions: string[] = [];
+  for (const candidate of candidates) {
+    if (suggestions.length === SUGGESTION_COUNT) break;
+    const key = normaliseUsername(candidate);
+    if (unavailable.has(key) || (await findReservedMatch(key))) continue;
+    suggestions.push(candidate);
+  }
+  return suggestions;
+};
+
+const throwUnavailable = (reason: UsernameUnavailableReason): never => {
+  if (reason === "reserved") {
+    throw new AppError(
+      "This username is not allowed",
+      400,
+      ErrorAppCode.UsernameReserved
+    );
+  }
+  throw new AppError("Username already taken", 409, ErrorAppCode.UsernameTaken, {
+    reason,
+  });
+};
+
+/**
+ * Returns when a user may next change their username, or null if now
+ */
+export const getNextUsernameChangeAt = (user: {
+  username: string | null;
+  usernameChangedAt: Date | null;
+}): Date | null => {
+  if (!user.username || !user.usernameChangedAt) return null;
+
+  const next = new Date(
+    user.usernameChangedAt.getTime() + USERNAME_CHANGE_COOLDOWN_DAYS * DAY_MS
+  );
+  return next > new Date() ? next : null;
+};
+
+/**
+ * Sets or changes a user's username
+ *
+ * Changing only the case of the current name is always allowed. Any other
+ * change is subject to the cooldown and keeps the old name in the
+ * history, where it is held for the user and redirects to the new name.
+ *
+ * @param userId - User changing their username
+ * @param username - New username, already valid (see `usernameSchema`)
+ * @returns The saved username
+ * @throws AppError (409) if taken or held, (400) if reserved, (429)
+ *   during the cooldown
+ */
+export const changeUsername = async (
+  userId: number,
+  username: string
+): Promise<string> => {
+  const key = normaliseUsername(username);
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { username: true, usernameKey: true, usernameChangedAt: true },
+  });
+  if (!user) {
+    throw new AppError("User not found", 404, ErrorAppCode.UserNotFound);
+  }
+  if (user.username === username) return username;
+
+  const caseOnly = user.usernameKey === key;
+  if (!caseOnly) {
+    const availability = await checkUsernameAvailability(username, userId);
+    if (!availability.available) throwUnavailable(availability.reason);
+
+    const nextChangeAt = getNextUsernameChangeAt(user);
+    if (nextChangeAt) {
+      throw new AppError(
+        `You can change your username again on ${nextChangeAt.toISOString().slice(0, 10)}`,
+        429,
+        ErrorAppCode.UsernameCooldown,
+        { nextChangeAt }
+      );
+    }
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          username,
+          usernameKey: key,
+          // The first username is not a change
+          ...(user.username && !caseOnly && { usernameChangedAt: new Date() }),
+        },
+      });
+      if (user.username && user.usernameKey && !caseOnly) {
+        await tx.usernameHistory.create({
+          data: {
+            userId,
+            username: user.username,
+            usernameKey: user.usernameKey,
+          },
+        });
+      }
+    });
+  } catch (error) {
+    // Someone took it between the check and the write
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throwUnavailable("taken");
+    }
+    throw error;
+  }
+
+  invalidateAuthUser(userId);
+  return username;
+};
+
+/**
+ * Finds the current username for a name someone gave up recently
+ *
+ * @param username - Old username
+ * @returns The owner's current username, or null if the name is not held
+ */
+export const resolveUsernameRedirect = async (
+  username: string
+): Promise<string | null> => {
+  const previous = await prisma.usernameHistory.findFirst({
+    where: {
+      usernameKey: normaliseUsername(username),
+      changedAt: { gt: holdCutoff() },
+    },
+    orderBy: { changedAt: "desc" },
+    select: { user: { select: { username: true } } },
+  });
+  return previous?.user.username ?? null;
+};
+
+/**
+ * Fills in `usernameKey` for users created before it existed
+ *
+ * Names that only differ by case cannot both have a key; those users are
+ * logged for an admin to reset, and keep working meanwhile.
+ */
+export const backfillUsernameKeys = async (): Promise<void> => {
+  const users = await prisma.user.findMany({
+    where: { username: { not: null }, usernameKey: null },
+    select: { id: true, username: true },
+  });
+
+  const conflicts: string[] = [];
+  for (const user of users) {
+    try {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { usernameKey: normaliseUsername(user.username!) },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        conflicts.push(`${user.username} (user ${user.id})`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  if (users.length > 0) {
+    console.log(`Username keys backfilled for ${users.length - conflicts.length} users.`);
+  }
+  if (conflicts.length > 0) {
+    console.warn(
+      "Usernames clashing with another user's apart from case; reset them:"
+    );
+    conflicts.forEach((conflict) => console.warn(`  - ${conflict}`));
+  }
+};
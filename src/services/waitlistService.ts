@@ -0,0 +1,269 @@
+import { randomBytes, randomUUID } from "crypto";
+import { InviteCode, Prisma } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+import { AppError, ErrorAppCode } from "@utils/errorHandler";
+import { getDefaultRole } from "@utils/roleUtils";
+import { WaitlistEntry } from "@schemas/waitlistEntrySchema";
+import { queueEmail, queueEmailSafely } from "./mailerService";
+
+/**
+ * Waitlist Service
+ *
+ * While the site is closed (`SIGNUP_MODE=invite`), people join the
+ * waitlist and admins let them in with single-use invite codes. An invite
+ * can be tied to a waitlist entry, in which case only that email can use
+ * it. When someone signs up, the waitlist entry with their email is marked
+ * as converted, whether or not they used an invite.
+ *
+ * Emails are stored lowercased so duplicates are caught regardless of
+ * case. Joining the waitlist and being invited from it are confirmed by
+ * email.
+ */
+
+export type SignupMode = "open" | "invite";
+
+// No 0/O or 1/I, so codes survive being read out or retyped
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+
+export const getSignupMode = (): SignupMode =>
+  process.env.SIGNUP_MODE === "invite" ? "invite" : "open";
+
+/**
+ * Normalises an invite code as typed, e.g. `abcd-efgh-jkmn`
+ */
+export const normaliseInviteCode = (code: string): string =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const generateCode = (): string =>
+  // 32 symbols divide 256 evenly, so masking keeps them uniform
+  Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte & 31]).join("");
+
+/**
+ * Adds someone to the waitlist
+ *
+ * @throws AppError (409) if the email is already on it
+ */
+export const joinWaitlist = async (entry: WaitlistEntry): Promise<void> => {
+  const email = entry.email.toLowerCase();
+
+  const duplicate = () =>
+    new AppError(
+      "This email is already on the waitlist",
+      409,
+      ErrorAppCode.WaitlistEntryExists
+    );
+
+  // Entries from before emails were lowercased may differ in case
+  const existing = await prisma.waitlistEntry.findFirst({
+    where: { email: { equals: email, mode: "insensitive" } },
+    select: { id: true },
+  });
+  if (existing) throw duplicate();
+
+  try {
+    await prisma.waitlistEntry.create({ data: { ...entry, email } });
+  } catch (error) {
+    // Another request added the same email in the meantime
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw duplicate();
+    }
+    throw error;
+  }
+
+  await queueEmailSafely(() =>
+    queueEmail(email, "waitlist_confirmation", { firstName: entry.firstName })
+  );
+};
+
+export interface IssueInvitesOptions {
+  expiresAt?: Date;
+  createdById?: number;
+}
+
+/**
+ * Issues a batch of invite codes anyone can use
+ *
+ * @param count - Number of codes
+ * @returns The batch ID and the codes
+ */
+export const issueOpenInvites = async (
+  count: number,
+  { expiresAt, createdById }: IssueInvitesOptions
+): Promise<{ batchId: string; invites: InviteCode[] }> => {
+  const batchId = randomUUID();
+  const invites = await prisma.inviteCode.createManyAndReturn({
+    data: Array.from({ length: count }, () => ({
+      code: generateCode(),
+      batchId,
+      expiresAt,
+      createdById,
+    })),
+  });
+  return { batchId, invites };
+};
+
+/**
+ * Issues one invite per waitlist entry, usable only with the entry's email
+ *
+ * Entries that already converted are skipped. Each invite is emailed.
+ *
+ * @param entryIds - Waitlist entries to invite
+ * @returns The batch ID, the codes, and the entry IDs that were skipped
+ */
+export const inviteWaitlistEntries = async (
+  entryIds: number[],
+  { expiresAt, createdById }: IssueInvitesOptions
+): Promise<{ batchId: string; invites: InviteCode[]; skipped: number[] }> => {
+  const entries = await prisma.waitlistEntry.findMany({
+    where: { id: { in: entryIds }, convertedAt: null },
+    select: { id: true, email: true, firstName: true },
+  });
+  const invitedIds = new Set(entries.map((entry) => entry.id));
+  const batchId = randomUUID();
+
+  const invites = await prisma.$transaction(async (tx) => {
+    const created = await tx.inviteCode.createManyAndReturn({
+      data: entries.map((entry) => ({
+        code: generateCode(),
+        batchId,
+        email: entry.email.toLowerCase(),
+        waitlistEntryId: entry.id,
+        expiresAt,
+        createdById,
+      })),
+    });
+    await tx.waitlistEntry.updateMany({
+      where: { id: { in: [...invitedIds] } },
+      data: { invitedAt: new Date() },
+    });
+    return created;
+  });
+
+  for (const entry of entries) {
+    const invite = invites.find((invite) => invite.waitlistEntryId === entry.id);
+    if (!invite) continue;
+    await queueEmailSafely(() =>
+      queueEmail(invite.email ?? entry.email, "invite", {
+        firstName: entry.firstName,
+        code: invite.code,
+        expiresAt: invite.expiresAt,
+      })
+    );
+  }
+
+  return {
+    batchId,
+    invites,
+    skipped: entryIds.filter((id) => !invitedIds.has(id)),
+  };
+};
+
+/**
+ * Finds an invite that the given email may use right now
+ *
+ * @throws AppError (403) if the code is missing, unknown, used, expired or
+ *   meant for another email
+ */
+const findUsableInvite = async (
+  code: string | undefined,
+  email: string
+): Promise<InviteCode> => {
+  if (!code) {
+    throw new AppError(
+      "Sign-ups are invite-only; an invite code is required",
+      403,
+      ErrorAppCode.InviteRequired
+    );
+  }
+
+  const invite = await prisma.inviteCode.findUnique({
+    where: { code: normaliseInviteCode(code) },
+  });
+  if (
+    !invite ||
+    invite.usedAt ||
+    (invite.expiresAt && invite.expiresAt <= new Date()) ||
+    (invite.email && invite.email !== email.toLowerCase())
+  ) {
+    throw new AppError(
+      "Invite code is not valid",
+      403,
+      ErrorAppCode.InviteInvalid
+    );
+  }
+  return invite;
+};
+
+export interface SignupProfile {
+  email: string;
+  googleId: string;
+  firstName: string;
+  secondName?: string;
+  profilePic?: string;
+}
+
+/**
+ * Creates the account for a new sign-up
+ *
+ * While sign-ups are invite-only, a usable invite is required and is
+ * redeemed in the same transaction, so each code creates one account.
+ *
+ * @param profile - Details from the identity provider
+ * @param inviteCode - Invite code given at sign-up, if any
+ * @returns The new user with their role
+ * @throws AppError (403) without a usable invite while invite-only
+ */
+export const signUpUser = async (
+  profile: SignupProfile,
+  inviteCode?: string
+): Promise<Prisma.UserGetPayload<{ include: { role: true } }>> => {
+  const defaultRole = getDefaultRole();
+  if (!defaultRole) {
+    throw new AppError(
+      "No default role configured",
+      500,
+      ErrorAppCode.ServerError
+    );
+  }
+
+  const invite =
+    getSignupMode() === "invite"
+      ? await findUsableInvite(inviteCode, profile.email)
+      : null;
+
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.create({
+      data: { ...profile, roleId: defaultRole.id },
+      include: { role: true },
+    });
+
+    if (invite) {
+      // Loses to a concurrent sign-up with the same code
+      const { count } = await tx.inviteCode.updateMany({
+        where: { id: invite.id, usedAt: null },
+        data: { usedAt: new Date(), usedById: user.id },
+      });
+      if (count === 0) {
+        throw new AppError(
+          "Invite code is not valid",
+          403,
+          ErrorAppCode.InviteInvalid
+        );
+      }
+    }
+
+    await tx.waitlistEntry.updateMany({
+      where: {
+        email: { equals: profile.email, mode: "insensitive" },
+        convertedAt: null,
+      },
+      data: { convertedAt: new Date(), convertedUserId: user.id },
+    });
+
+    return user;
+  });
+};
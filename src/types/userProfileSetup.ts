@@ -1,15 +1,24 @@
 import { z } from "zod";
+import { usernameSchema } from "./username";
+
+export const GENDERS = [
+  "female",
+  "male",
+  "non_binary",
+  "other",
+  "prefer_not_to_say",
+] as const;
 
 export const userProfileSetupSchema = z.object({
-  username: z.string().min(3).max(32),
+  username: usernameSchema,
   bio: z.string().max(280).optional(),
 });
 
 // For modification
 export const userProfileSchema = z.object({
-  username: z.string().min(3).max(32).optional(),
+  username: usernameSchema.optional(),
   bio: z.string().max(280).optional(),
-  profilePic: z.string().optional(),
-  bannerPic: z.string().optional(),
   colorTheme: z.string().optional(),
+  // null clears it
+  gender: z.enum(GENDERS).nullable().optional(),
 });
@@ -1,7 +1,11 @@
 import { z } from "zod";
 
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 16;
+
 export const usernameSchema = z
   .string()
-  .min(3)
-  .max(16)
+  .trim()
+  .min(USERNAME_MIN_LENGTH)
+  .max(USERNAME_MAX_LENGTH)
   .regex(/^[a-zA-Z0-9_]+$/, "Only letters, numbers and underscores allowed");
@@ -0,0 +1,20 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Chapter Utilities
+ *
+ * A chapter is published once its `publishedAt` has passed. Chapters
+ * without a date are published, with no known publication time.
+ */
+
+/**
+ * Returns a Prisma `where` fragment matching published chapters
+ *
+ * @param now - Point in time to check against
+ * @returns Filter on `publishedAt`
+ */
+export const getPublishedChapterFilter = (
+  now: Date = new Date()
+): Prisma.ChapterWhereInput => ({
+  OR: [{ publishedAt: null }, { publishedAt: { lte: now } }],
+});
@@ -1,8 +1,8 @@
 import { User } from "@prisma/client";
 import { prisma } from "@libs/prisma";
-import axios from "axios";
-import { z } from "zod";
-import { ErrorAppCode } from "./errorHandler";
+import { AppError, ErrorAppCode } from "./errorHandler";
+import { invalidateAuthUser } from "../services/authStateService";
+import { resolveCountry } from "../services/geoIpService";
 
 type NSFWBandResult =
   | { band: 3 }
@@ -10,47 +10,89 @@ type NSFWBandResult =
   | {
       band: 1;
       reason: ErrorAppCode;
+      // Set when the reason is Underage
+      minimumAge?: number;
     };
 
-const IpAPI = `http://ip-api.com/json/`;
-const IpApiResponse = z.object({
-  query: z.string(),
-  status: z.string(),
-  country: z.string(),
-  countryCode: z.string(),
-  region: z.string(),
-  regionName: z.string(),
-  city: z.string(),
-  zip: z.string(),
-  lat: z.number(),
-  lon: z.number(),
-  timezone: z.string(),
-  isp: z.string(),
-  org: z.string(),
-  as: z.string(),
-});
+// Minimum age when neither the policy nor the country sets one
+export const DEFAULT_MINIMUM_AGE = 18;
+
+/**
+ * The NSFW policy with the country rules needed to compute bands
+ */
+export type NSFWPolicySnapshot = {
+  band2Enabled: boolean;
+  minimumAge: number;
+  // Country code to band (1 or 2)
+  restrictions: Map<string, number>;
+  // Country code to minimum age
+  minimumAges: Map<string, number>;
+};
+
+export type ContentAccess = {
+  band: 1 | 2 | 3;
+  canViewMature: boolean;
+  // Why mature content is not viewable, null when it is
+  denial: {
+    statusCode: number;
+    reason: ErrorAppCode;
+    message: string;
+  } | null;
+};
+
+/**
+ * Loads the NSFW policy and its country rules
+ *
+ * @param countries - Only load rules for these countries (all if omitted)
+ * @returns Policy snapshot, or null if no policy exists
+ */
+export async function loadNSFWPolicySnapshot(
+  countries?: string[]
+): Promise<NSFWPolicySnapshot | null> {
+  const where = countries ? { countryCode: { in: countries } } : undefined;
+  const [policy, restrictions, minimumAges] = await Promise.all([
+    prisma.nSFWPolicy.findUnique({ where: { id: 1 } }),
+    prisma.nSFWRestrictedCountry.findMany({ where }),
+    prisma.nSFWCountryMinimumAge.findMany({ where }),
+  ]);
+  if (!policy) return null;
+
+  return {
+    band2Enabled: policy.band2Enabled,
+    minimumAge: policy.minimumAge,
+    restrictions: new Map(restrictions.map((r) => [r.countryCode, r.band])),
+    minimumAges: new Map(minimumAges.map((m) => [m.countryCode, m.minimumAge])),
+  };
+}
 
-export async function getUserBand(user: User): Promise<NSFWBandResult> {
-  const nsfwPolicy = await prisma.nSFWPolicy.findUnique({ where: { id: 1 } });
-  if (!nsfwPolicy) return { band: 1, reason: ErrorAppCode.MissingNSFWPolicy };
-
-  const restriction = user.country
-    ? await prisma.nSFWRestrictedCountry.findFirst({
-        where: { countryCode: user.country },
-      })
-    : null;
+/**
+ * Computes a user's band under a policy, without touching the database
+ */
+export function computeUserBand(
+  user: Pick<User, "birthday" | "country">,
+  policy: NSFWPolicySnapshot | null
+): NSFWBandResult {
+  if (!policy) return { band: 1, reason: ErrorAppCode.MissingNSFWPolicy };
 
   if (!user.birthday) return { band: 1, reason: ErrorAppCode.BirthdayRequired };
 
+  const minimumAge =
+    (user.country && policy.minimumAges.get(user.country)) || policy.minimumAge;
   const age = calculateAge(user.birthday);
-  if (age < 18) return { band: 1, reason: ErrorAppCode.Underage };
+  if (age < minimumAge) {
+    return { band: 1, reason: ErrorAppCode.Underage, minimumAge };
+  }
 
-  if (restriction?.band === 1) {
+  const restriction = user.country
+    ? policy.restrictions.get(user.country)
+    : undefined;
+
+  if (restriction === 1) {
     return { band: 1, reason: ErrorAppCode.CountryBanned };
   }
 
-  if (restriction?.band === 2) {
-    return nsfwPolicy.band2Enabled
+  if (restriction === 2) {
+    return policy.band2Enabled
       ? { band: 2 }
       : { band: 1, reason: ErrorAppCode.CountryLimited };
   }
@@ -58,6 +100,129 @@ export async function getUserBand(user: User): Promise<NSFWBandResult> {
   return { band: 3 };
 }
 
+export async function getUserBand(user: User): Promise<NSFWBandResult> {
+  const policy = await loadNSFWPolicySnapshot(user.country ? [user.country] : []);
+  return computeUserBand(user, policy);
+}
+
+/**
+ * Returns a human readable message for a band 1 reason
+ */
+export function getBandMessage(
+  reason: ErrorAppCode,
+  minimumAge = DEFAULT_MINIMUM_AGE
+): string {
+  switch (reason) {
+    case ErrorAppCode.MissingNSFWPolicy:
+      return "NSFW policy not found";
+    case ErrorAppCode.CountryBanned:
+      return "This feature is not available in your country";
+    case ErrorAppCode.CountryLimited:
+      // this will only occur if band 2 is disabled
+      return "This feature is not available in your country";
+    case ErrorAppCode.BirthdayRequired:
+      return "You must provide your birthday to use this feature";
+    case ErrorAppCode.Underage:
+      return `You must be at least ${minimumAge} years old to use this feature`;
+    default:
+      return "This feature is not available in your country";
+  }
+}
+
+/**
+ * Resolves what a requester may see
+ *
+ * Anonymous requesters are treated as band 1. Mature content is viewable
+ * only when the band allows it (band 2 also needs age verification) and
+ * the user has NSFW enabled.
+ */
+export async function getContentAccess(
+  user: User | undefined
+): Promise<ContentAccess> {
+  if (!user) {
+    return {
+      band: 1,
+      canViewMature: false,
+      denial: {
+        statusCode: 401,
+        reason: ErrorAppCode.Unauthorised,
+        message: "You must be signed in to view mature content",
+      },
+    };
+  }
+
+  const band = await getUserBand(user);
+
+  if (band.band === 1) {
+    return {
+      band: 1,
+      canViewMature: false,
+      denial: {
+        statusCode: 403,
+        reason: band.reason,
+        message: getBandMessage(band.reason, band.minimumAge),
+      },
+    };
+  }
+
+  if (band.band === 2 && !user.verifiedForNSFW) {
+    return {
+      band: 2,
+      canViewMature: false,
+      denial: {
+        statusCode: 403,
+        reason: ErrorAppCode.CountryLimited,
+        message: "You must verify your age to use this feature",
+      },
+    };
+  }
+
+  if (!user.nsfwEnabled) {
+    return {
+      band: band.band,
+      canViewMature: false,
+      denial: {
+        statusCode: 403,
+        reason: ErrorAppCode.NSFWDisabled,
+        message: "Enable NSFW content to view this",
+      },
+    };
+  }
+
+  return { band: band.band, canViewMature: true, denial: null };
+}
+
+/**
+ * Switches NSFW off for a user who can no longer view mature content,
+ * e.g. after their birthday changed
+ *
+ * @returns True if NSFW was switched off
+ */
+export async function reconcileNSFWAccess(user: User): Promise<boolean> {
+  if (!user.nsfwEnabled) return false;
+
+  const access = await getContentAccess(user);
+  if (access.canViewMature) return false;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { nsfwEnabled: false },
+  });
+  user.nsfwEnabled = false;
+  invalidateAuthUser(user.id);
+  return true;
+}
+
+/**
+ * Throws the access denial unless mature content is viewable
+ */
+export function assertMatureAccess(access: ContentAccess): void {
+  if (access.denial) {
+    const { message, statusCode, reason } = access.denial;
+    throw new AppError(message, statusCode, reason);
+  }
+}
+
 function calculateAge(birthday: Date): number {
   const today = new Date();
   const birth = new Date(birthday);
@@ -71,32 +236,10 @@ function calculateAge(birthday: Date): number {
   return age;
 }
 
-async function getIpCountry(ip: string): Promise<string | null> {
-  try {
-    const url = IpAPI + ip;
-    const res = await axios.get(url, { timeout: 3000 });
-    const data = IpApiResponse.safeParse(res.data);
-
-    if (!data.success) {
-      console.warn("Invalid IP API response:", data.error.format());
-      return null;
-    }
-
-    return data.data.countryCode;
-  } catch (err) {
-    console.error("Failed to get country from IP:", err);
-    return null;
-  }
-}
-
-function isIpValid(ip: string): boolean {
-  return /^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$/.test(ip);
-}
-
-export async function assignUserCountry(user: User, ip: string): Promise<void> {
-  if (!isIpValid(ip)) return;
-  const country = await getIpCountry(ip);
-  if (!country) return;
-  user.country = country;
-  await prisma.user.update({ where: { id: user.id }, data: { country } });
+/**
+ * Resolves the ISO 3166-1 alpha-2 country of an IP, or null if unknown
+ */
+export async function getCountryFromIp(ip: string): Promise<string | null> {
+  const resolution = await resolveCountry(ip);
+  return resolution?.country ?? null;
 }
@@ -0,0 +1,90 @@
+/**
+ * CSV Utilities
+ *
+ * Minimal RFC 4180 CSV writer for exports, and a line parser for imports.
+ */
+
+/**
+ * Escapes a value for a CSV cell
+ *
+ * Objects are written as JSON. Cells starting with a formula character
+ * (`=`, `+`, `-`, `@`, tab or carriage return) are prefixed with a quote so
+ * spreadsheets don't evaluate them.
+ *
+ * @param value - Cell value
+ * @returns Escaped cell
+ */
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Builds a CSV document from rows
+ *
+ * @param columns - Column names, in order; also the header row
+ * @param rows - Rows keyed by column name
+ * @returns CSV text with CRLF line endings
+ */
+export const toCsv = <T extends Record<string, unknown>>(
+  columns: readonly (keyof T & string)[],
+  rows: T[]
+): string => {
+  const lines = [
+    columns.map(toCsvCell).join(","),
+    ...rows.map((row) => columns.map((column) => toCsvCell(row[column])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+};
+
+/**
+ * Splits one CSV line into cells, unquoting quoted cells
+ *
+ * Quoted cells may contain commas and escaped quotes, but not line breaks.
+ *
+ * @param line - CSV line without its line ending
+ * @returns Cell values
+ */
+export const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+
+  return cells;
+};
@@ -8,11 +8,43 @@ export enum ErrorAppCode {
   MissingNSFWPolicy = "missing_nsfw_policy",
   CountryBanned = "country_banned",
   CountryLimited = "country_limited",
+  CountryRuleNotFound = "country_rule_not_found",
   BirthdayRequired = "birthday_required",
   Underage = "underage",
   Unauthorised = "unauthorised",
+  TokenExpired = "token_expired",
+  RefreshTokenReused = "refresh_token_reused",
+  TokenRevoked = "token_revoked",
+  AccountSuspended = "account_suspended",
+  RoleNotFound = "role_not_found",
+  RoleConflict = "role_conflict",
   InsufficientPermissions = "insufficient_permissions",
   BadInput = "bad_input",
+  SeriesNotFound = "series_not_found",
+  ChapterNotFound = "chapter_not_found",
+  NSFWDisabled = "nsfw_disabled",
+  ShelfNotFound = "shelf_not_found",
+  ShelfAlreadyExists = "shelf_already_exists",
+  SessionNotFound = "session_not_found",
+  VerificationRequestNotFound = "verification_request_not_found",
+  VerificationConflict = "verification_conflict",
+  VerificationNotRequired = "verification_not_required",
+  BirthdayChangeNotFound = "birthday_change_not_found",
+  BirthdayChangeConflict = "birthday_change_conflict",
+  InvalidImage = "invalid_image",
+  FileTooLarge = "file_too_large",
+  UsernameTaken = "username_taken",
+  UsernameReserved = "username_reserved",
+  UsernameCooldown = "username_cooldown",
+  ReservedUsernameNotFound = "reserved_username_not_found",
+  ReservedUsernameConflict = "reserved_username_conflict",
+  RateLimited = "rate_limited",
+  AccountDeletionConflict = "account_deletion_conflict",
+  WaitlistEntryExists = "waitlist_entry_exists",
+  InviteRequired = "invite_required",
+  InviteInvalid = "invite_invalid",
+  InviteNotFound = "invite_not_found",
+  UnsubscribeTokenInvalid = "unsubscribe_token_invalid",
 }
 
 export class AppError extends Error {
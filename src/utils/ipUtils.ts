@@ -0,0 +1,132 @@
+import net from "net";
+
+/**
+ * IP Utilities
+ *
+ * Parses IPv4 and IPv6 addresses into comparable 16-byte buffers (IPv4 as
+ * IPv4-mapped IPv6, `::ffff:a.b.c.d`) so both families share one address
+ * space for range lookups.
+ */
+
+const IPV4_MAPPED_PREFIX = Buffer.from([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff]);
+
+// Ranges that never resolve to a country
+const NON_PUBLIC_RANGES = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.168.0.0/16",
+  "::/128",
+  "::1/128",
+  "fc00::/7",
+  "fe80::/10",
+];
+
+/**
+ * Parses an IPv4 address into its 4 bytes
+ */
+const parseIpv4 = (ip: string): number[] => ip.split(".").map(Number);
+
+/**
+ * Parses an IP address
+ *
+ * @param ip - IPv4, IPv6 or IPv4-mapped IPv6 address (zone IDs are ignored)
+ * @returns 16-byte address, or null if the input is not an IP
+ */
+export const parseIp = (ip: string): Buffer | null => {
+  const address = ip.trim().split("%")[0];
+
+  switch (net.isIP(address)) {
+    case 4:
+      return Buffer.concat([IPV4_MAPPED_PREFIX, Buffer.from(parseIpv4(address))]);
+    case 6: {
+      // Embedded IPv4 tail, e.g. ::ffff:1.2.3.4
+      let text = address.toLowerCase();
+      const ipv4Tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+      if (ipv4Tail) {
+        const [a, b, c, d] = parseIpv4(ipv4Tail[1]);
+        const high = ((a << 8) | b).toString(16);
+        const low = ((c << 8) | d).toString(16);
+        text = `${text.slice(0, -ipv4Tail[1].length)}${high}:${low}`;
+      }
+
+      const [head, tail] = text.split("::");
+      const headGroups = head ? head.split(":") : [];
+      const tailGroups = tail ? tail.split(":") : [];
+      const missing = 8 - headGroups.length - tailGroups.length;
+      const groups =
+        tail === undefined
+          ? headGroups
+          : [...headGroups, ...Array(missing).fill("0"), ...tailGroups];
+
+      const bytes = Buffer.alloc(16);
+      groups.forEach((group, index) =>
+        bytes.writeUInt16BE(parseInt(group, 16), index * 2)
+      );
+      return bytes;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parses a CIDR network into its first and last address
+ *
+ * @param cidr - e.g. "1.2.3.0/24" or "2001:db8::/32"
+ * @returns Inclusive range, or null if the input is not a network
+ */
+export const parseCidr = (
+  cidr: string
+): { start: Buffer; end: Buffer } | null => {
+  const [address, prefixText] = cidr.trim().split("/");
+  const start = parseIp(address);
+  if (!start || prefixText === undefined) return null;
+
+  // IPv4 prefixes count from the start of the mapped range
+  const prefix = Number(prefixText) + (net.isIP(address) === 4 ? 96 : 0);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > 128) return null;
+
+  const end = Buffer.from(start);
+  for (let bit = prefix; bit < 128; bit++) {
+    const byte = bit >> 3;
+    const mask = 0x80 >> (bit & 7);
+    start[byte] &= ~mask;
+    end[byte] |= mask;
+  }
+  return { start, end };
+};
+
+const nonPublicRanges = NON_PUBLIC_RANGES.map((cidr) => parseCidr(cidr)!);
+
+/**
+ * Check if an address is publicly routable (and so may have a country)
+ *
+ * @param ip - Parsed address
+ * @returns False for private, loopback, link-local and similar addresses
+ */
+export const isPublicIp = (ip: Buffer): boolean => {
+  return !nonPublicRanges.some(
+    ({ start, end }) => start.compare(ip) <= 0 && end.compare(ip) >= 0
+  );
+};
+
+/**
+ * Formats a parsed address, as IPv4 when it is IPv4-mapped
+ *
+ * @param ip - Parsed address
+ * @returns Address text
+ */
+export const formatIp = (ip: Buffer): string => {
+  if (ip.subarray(0, 12).equals(IPV4_MAPPED_PREFIX)) {
+    return [...ip.subarray(12)].join(".");
+  }
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(ip.readUInt16BE(i).toString(16));
+  }
+  return groups.join(":");
+};
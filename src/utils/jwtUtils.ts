@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import jwt from "jsonwebtoken";
 import { Response } from "express";
 import { AppError, ErrorAppCode } from "./errorHandler";
@@ -26,6 +27,8 @@ export interface TokenPayload {
   userId: number;
   email: string;
   role?: string;
+  sessionId?: string; // refresh token session the access token was issued for
+  tokenVersion?: number; // user's token version when issued
 }
 
 export interface TokenResponse {
@@ -61,6 +64,9 @@ export const generateAccessToken = (payload: TokenPayload): TokenResponse => {
 /**
  * Generates a refresh token for token rotation
  *
+ * Each token gets a random ID, so two tokens issued to the same user in
+ * the same second still differ.
+ *
  * @param userId - User ID to associate with the refresh token
  * @returns Refresh token string
  */
@@ -75,6 +81,7 @@ export const generateRefreshToken = (userId: number): string => {
 
   return jwt.sign({ userId }, process.env.JWT_REFRESH_SECRET, {
     expiresIn: REFRESH_TOKEN_EXPIRES_IN,
+    jwtid: crypto.randomUUID(),
   });
 };
 
@@ -117,7 +124,7 @@ export const verifyAccessToken = (token: string): TokenPayload => {
       throw new AppError(
         "Access token expired",
         401,
-        ErrorAppCode.Unauthorised
+        ErrorAppCode.TokenExpired
       );
     }
     throw new AppError("Invalid access token", 401, ErrorAppCode.Unauthorised);
@@ -0,0 +1,92 @@
+/**
+ * Permission Utilities
+ *
+ * Named permissions checked by `requirePermission`. The keys here are the
+ * catalogue: they are synced into the `Permission` table at startup, and
+ * roles and users are granted them in the database.
+ *
+ * This module has no runtime dependencies so the seed script can import it.
+ */
+
+export const PERMISSIONS = {
+  CONTENT_FILTER_READ: {
+    key: "content_filter.read",
+    description: "View the NSFW policy and restricted countries",
+  },
+  CONTENT_FILTER_WRITE: {
+    key: "content_filter.write",
+    description: "Change the restricted countries",
+  },
+  USERS_READ: {
+    key: "users.read",
+    description: "Search users and view their details",
+  },
+  USERS_CHANGE_ROLE: {
+    key: "users.change_role",
+    description: "Change a user's role",
+  },
+  USERS_LOGOUT: {
+    key: "users.logout",
+    description: "Sign a user out of every session",
+  },
+  USERS_SUSPEND: {
+    key: "users.suspend",
+    description: "Suspend and unsuspend users",
+  },
+  USERS_RESET_PROFILE: {
+    key: "users.reset_profile",
+    description: "Clear a user's username, bio or images",
+  },
+  ROLES_MANAGE: {
+    key: "roles.manage",
+    description: "Create, change and delete roles",
+  },
+  PERMISSIONS_MANAGE: {
+    key: "permissions.manage",
+    description: "Change the permissions of roles and users",
+  },
+  AGE_VERIFICATION_REVIEW: {
+    key: "age_verification.review",
+    description: "Review and decide age verification requests",
+  },
+  BIRTHDAY_CHANGE_REVIEW: {
+    key: "birthday_change.review",
+    description: "Review and decide birthday change requests",
+  },
+  USERNAMES_MANAGE: {
+    key: "usernames.manage",
+    description: "Manage reserved usernames and blocked words",
+  },
+  WAITLIST_MANAGE: {
+    key: "waitlist.manage",
+    description: "View and export the waitlist, and issue invite codes",
+  },
+  AUDIT_LOG_READ: {
+    key: "audit_log.read",
+    description: "View and export the audit log",
+  },
+  SERIES_PUBLISH: {
+    key: "series.publish",
+    description: "Create and edit series and chapters",
+  },
+  SERIES_DELETE: {
+    key: "series.delete",
+    description: "Delete series and chapters",
+  },
+};
+
+export type PermissionName = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS: string[] = Object.values(PERMISSIONS).map(
+  (permission) => permission.key
+);
+
+/**
+ * Check if a permission key is in the catalogue
+ *
+ * @param key - Permission key to check
+ * @returns True if the code defines the permission
+ */
+export const isPermissionKey = (key: string): boolean => {
+  return PERMISSION_KEYS.includes(key);
+};
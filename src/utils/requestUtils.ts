@@ -0,0 +1,74 @@
+import { Request } from "express";
+
+/**
+ * Request Utilities
+ *
+ * Helpers for reading client details from incoming requests.
+ */
+
+/**
+ * Parses `TRUST_PROXY` into an Express "trust proxy" setting
+ *
+ * Unset means no proxy is trusted, so `X-Forwarded-For` is ignored.
+ * Accepts "true"/"false", a number of proxy hops, or a comma-separated
+ * list of addresses, subnets or presets (e.g. "loopback, 10.0.0.0/8").
+ *
+ * @param value - Raw environment value
+ * @returns Value for `app.set("trust proxy", ...)`
+ */
+export const parseTrustProxy = (
+  value: string | undefined
+): boolean | number | string[] => {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed === "false") return false;
+  if (trimmed === "true") return true;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+  return trimmed.split(",").map((entry) => entry.trim()).filter(Boolean);
+};
+
+/**
+ * Returns the client IP
+ *
+ * `X-Forwarded-For` is only honoured for proxies trusted through
+ * `TRUST_PROXY`, so clients cannot spoof their address.
+ *
+ * @param req - Express request object
+ * @returns Client IP, or an empty string if unknown
+ */
+export const getClientIp = (req: Request): string =>
+  req.ip || req.socket.remoteAddress || "";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * Builds a readable device label from a user agent, e.g. "Chrome on Windows"
+ *
+ * @param userAgent - User agent header value
+ * @returns Device label, or null if nothing is recognised
+ */
+export const describeUserAgent = (
+  userAgent: string | undefined
+): string | null => {
+  if (!userAgent) return null;
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? null;
+};
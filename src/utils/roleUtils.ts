@@ -1,42 +1,118 @@
+import { Role as PrismaRole } from "@prisma/client";
+import { prisma } from "@libs/prisma";
+
 /**
  * Role Utilities
- * 
- * This module defines role hierarchy and provides utilities for role-based authorization:
- * - Role definitions with priority levels
+ *
+ * This module provides utilities for role-based authorization:
+ * - Names of the roles the code refers to
+ * - An in-memory cache of the role hierarchy, loaded from the `Role` table
  * - Role comparison functions to check if one role has higher or equal privileges
  * - Role validation functions
+ *
+ * The `Role` table is the single source of truth: lower `priority` means
+ * higher rank (e.g. 0 for super_admin). Role names are compared
+ * case-insensitively.
  */
 
-// Define role hierarchy (higher number = higher priority)
+// Roles referenced in code; each must exist in the Role table at startup
 export const ROLES = {
-  USER: { name: 'user', priority: 1 },
-  EDITOR: { name: 'editor', priority: 2 },
-  MODERATOR: { name: 'moderator', priority: 3 },
-  ADMIN: { name: 'admin', priority: 4 },
-  SUPER_ADMIN: { name: 'super_admin', priority: 5 }
+  USER: { name: 'user' },
+  PREMIUM: { name: 'premium' },
+  EDITOR: { name: 'editor' },
+  MODERATOR: { name: 'moderator' },
+  ADMIN: { name: 'admin' },
+  SUPER_ADMIN: { name: 'super_admin' }
 };
 
 // Role type for type safety
 export type RoleName = keyof typeof ROLES;
-export type Role = typeof ROLES[RoleName];
+export type Role = PrismaRole;
+
+const ROLE_REFRESH_INTERVAL_MS = 60 * 1000; // 1 minute
+
+let rolesByName = new Map<string, Role>();
+
+const normaliseRoleName = (roleName: string): string => roleName.trim().toLowerCase();
+
+/**
+ * Loads the role hierarchy from the database into the cache
+ *
+ * Called at startup, after any role change, and periodically so that other
+ * instances pick up changes.
+ *
+ * @returns Roles ordered from highest to lowest rank
+ */
+export const loadRoleHierarchy = async (): Promise<Role[]> => {
+  const roles = await prisma.role.findMany({ orderBy: { priority: 'asc' } });
+  rolesByName = new Map(roles.map((role) => [normaliseRoleName(role.name), role]));
+  return roles;
+};
+
+/**
+ * Keeps the cached hierarchy fresh in the background
+ */
+export const startRoleHierarchyRefresh = (): void => {
+  setInterval(() => {
+    loadRoleHierarchy().catch((error) =>
+      console.error('Failed to refresh role hierarchy:', error)
+    );
+  }, ROLE_REFRESH_INTERVAL_MS).unref();
+};
+
+/**
+ * Checks that the database has every role the code refers to, and a
+ * default role for new sign-ups
+ *
+ * @returns Descriptions of the problems found; empty if consistent
+ */
+export const checkRoleConsistency = async (): Promise<string[]> => {
+  const roles = await loadRoleHierarchy();
+  const problems = Object.values(ROLES)
+    .filter(({ name }) => !rolesByName.has(name))
+    .map(({ name }) => `Missing role "${name}"`);
+
+  const defaults = roles.filter((role) => role.isDefault);
+  if (defaults.length !== 1) {
+    problems.push(`Expected exactly one default role, found ${defaults.length}`);
+  }
+
+  return problems;
+};
 
 /**
  * Get role object by name
- * 
+ *
  * @param roleName - Name of the role to retrieve
  * @returns Role object with name and priority or undefined if not found
  */
 export const getRoleByName = (roleName: string): Role | undefined => {
-  const roleEntry = Object.entries(ROLES).find(
-    ([, role]) => role.name === roleName.toLowerCase()
-  );
-  
-  return roleEntry ? roleEntry[1] : undefined;
+  return rolesByName.get(normaliseRoleName(roleName));
+};
+
+/**
+ * Get the role assigned to new sign-ups
+ *
+ * @returns Default role or undefined if none is configured
+ */
+export const getDefaultRole = (): Role | undefined => {
+  return [...rolesByName.values()].find((role) => role.isDefault);
+};
+
+/**
+ * Check if a role name is referenced in code (and so cannot be renamed or deleted)
+ *
+ * @param roleName - Role name to check
+ * @returns True if the code refers to the role
+ */
+export const isBuiltInRole = (roleName: string): boolean => {
+  const name = normaliseRoleName(roleName);
+  return Object.values(ROLES).some((role) => role.name === name);
 };
 
 /**
  * Check if a role has equal or higher priority than a required role
- * 
+ *
  * @param userRole - User's role name
  * @param requiredRole - Required role name for access
  * @returns True if user's role has equal or higher priority
@@ -44,46 +120,48 @@ export const getRoleByName = (roleName: string): Role | undefined => {
 export const hasRoleOrHigher = (userRole: string, requiredRole: string): boolean => {
   const userRoleObj = getRoleByName(userRole);
   const requiredRoleObj = getRoleByName(requiredRole);
-  
+
   if (!userRoleObj || !requiredRoleObj) {
     return false;
   }
-  
-  return userRoleObj.priority >= requiredRoleObj.priority;
+
+  // Lower number = higher priority
+  return userRoleObj.priority <= requiredRoleObj.priority;
 };
 
 /**
  * Check if a role is included in a list of allowed roles (by name or by priority)
- * 
+ *
  * @param userRole - User's role name
  * @param allowedRoles - Array of allowed role names
  * @param checkHigherPriority - If true, check if user's role has higher priority than any allowed role
  * @returns True if user's role is allowed
  */
 export const isRoleAllowed = (
-  userRole: string, 
-  allowedRoles: string[], 
+  userRole: string,
+  allowedRoles: string[],
   checkHigherPriority = false
 ): boolean => {
   // Exact match check
-  if (allowedRoles.includes(userRole)) {
+  const name = normaliseRoleName(userRole);
+  if (allowedRoles.some((role) => normaliseRoleName(role) === name)) {
     return true;
   }
-  
+
   // Higher priority check
   if (checkHigherPriority) {
     return allowedRoles.some(role => hasRoleOrHigher(userRole, role));
   }
-  
+
   return false;
 };
 
 /**
  * Validate if a role exists in the system
- * 
+ *
  * @param roleName - Role name to validate
  * @returns True if role exists
  */
 export const isValidRole = (roleName: string): boolean => {
   return !!getRoleByName(roleName);
-}; 
\ No newline at end of file
+};
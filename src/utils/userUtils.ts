@@ -0,0 +1,40 @@
+import { User } from "@prisma/client";
+import { AppError, ErrorAppCode } from "./errorHandler";
+
+/**
+ * User Utilities
+ *
+ * Helpers for account state shared across auth and admin code.
+ */
+
+/**
+ * Checks whether a user is currently suspended
+ *
+ * A suspension with an `suspendedUntil` in the past has lapsed.
+ *
+ * @param user - User to check
+ * @returns True if the user is suspended right now
+ */
+export const isUserSuspended = (
+  user: Pick<User, "suspendedAt" | "suspendedUntil">
+): boolean => {
+  if (!user.suspendedAt) return false;
+  return !user.suspendedUntil || user.suspendedUntil > new Date();
+};
+
+/**
+ * Throws if a user is currently suspended
+ *
+ * @param user - User to check
+ * @throws AppError (403) with the suspension end date in details
+ */
+export const assertNotSuspended = (
+  user: Pick<User, "suspendedAt" | "suspendedUntil" | "suspensionReason">
+): void => {
+  if (isUserSuspended(user)) {
+    throw new AppError("Account suspended", 403, ErrorAppCode.AccountSuspended, {
+      until: user.suspendedUntil,
+      reason: user.suspensionReason,
+    });
+  }
+};
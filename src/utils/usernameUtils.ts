@@ -0,0 +1,35 @@
+/**
+ * Username Utilities
+ *
+ * Usernames are unique regardless of case: `usernameKey` holds the
+ * normalised form, and every lookup goes through it.
+ *
+ * This module has no runtime dependencies so the seed script can import it.
+ */
+
+// Reserved out of the box; admins manage the full list in the database
+export const DEFAULT_RESERVED_USERNAMES = [
+  "admin",
+  "administrator",
+  "api",
+  "help",
+  "manhco",
+  "me",
+  "mod",
+  "moderator",
+  "root",
+  "staff",
+  "support",
+  "system",
+  "user",
+  "users",
+];
+
+/**
+ * Normalises a username for uniqueness checks and lookups
+ *
+ * @param username - Username as typed
+ * @returns Lowercased username
+ */
+export const normaliseUsername = (username: string): string =>
+  username.trim().toLowerCase();
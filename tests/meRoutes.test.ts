@@ -0,0 +1,77 @@
+import express from "express";
+import request from "supertest";
+import { prisma } from "@libs/prisma";
+import { generateAccessToken } from "@utils/jwtUtils";
+import meRoutes from "@routes/v1/me";
+import errorMiddleware from "../src/middleware/error";
+
+jest.mock("@libs/prisma", () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    notification: { count: jest.fn() },
+    notificationPreference: { findMany: jest.fn() },
+    emailPreference: { findUnique: jest.fn() },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock };
+  notification: { count: jest.Mock };
+  notificationPreference: { findMany: jest.Mock };
+  emailPreference: { findUnique: jest.Mock };
+};
+
+const USER = {
+  id: 7,
+  email: "reader@example.com",
+  tokenVersion: 0,
+  suspendedAt: null,
+  suspendedUntil: null,
+  role: { id: 4, name: "user", priority: 150 },
+};
+
+const app = express();
+app.use(express.json());
+app.use("/me", meRoutes);
+app.use(errorMiddleware);
+
+const bearer = () =>
+  `Bearer ${generateAccessToken({ userId: USER.id, email: USER.email, tokenVersion: 0 }).accessToken}`;
+
+beforeAll(() => {
+  process.env.JWT_ACCESS_SECRET = "test-access-secret";
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  mockPrisma.user.findUnique.mockResolvedValue(USER);
+  mockPrisma.notification.count.mockResolvedValue(3);
+  mockPrisma.notificationPreference.findMany.mockResolvedValue([]);
+  mockPrisma.emailPreference.findUnique.mockResolvedValue(null);
+});
+
+describe("/me routes", () => {
+  it("rejects requests without a token", async () => {
+    const res = await request(app).get("/me/notifications/unread-count");
+
+    expect(res.status).toBe(401);
+  });
+
+  it.each([
+    ["/me/notifications/unread-count", { unread: 3 }],
+    ["/me/email-preferences", { preferences: { security: true, account: true, announcements: true } }],
+  ])("serves GET %s to the signed-in user", async (path, body) => {
+    const res = await request(app).get(path).set("Authorization", bearer());
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(body);
+  });
+
+  it("scopes queries to the signed-in user", async () => {
+    await request(app).get("/me/notifications/unread-count").set("Authorization", bearer());
+
+    expect(mockPrisma.notification.count).toHaveBeenCalledWith({
+      where: { userId: USER.id, readAt: null },
+    });
+  });
+});
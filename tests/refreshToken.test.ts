@@ -0,0 +1,203 @@
+import express from "express";
+import cookieParser from "cookie-parser";
+import request from "supertest";
+import { ErrorAppCode } from "@utils/errorHandler";
+import { generateRefreshToken } from "@utils/jwtUtils";
+import authRoutes from "@routes/v1/auth";
+import errorMiddleware from "../src/middleware/error";
+import { storeRefreshToken } from "../src/services/tokenService";
+
+interface StoredToken {
+  id: number;
+  tokenHash: string;
+  userId: number;
+  sessionId: string;
+  sessionStartedAt: Date;
+  deviceLabel: string | null;
+  userAgent: string | null;
+  country: string | null;
+  expiresAt: Date;
+  rotatedAt: Date | null;
+}
+
+// In-memory refresh token table with the unique token hash of the real one
+const mockDb = {
+  tokens: [] as StoredToken[],
+  nextId: 1,
+  failInserts: false,
+  securityEvents: [] as { userId: number; sessionId: string; type: string }[],
+};
+
+jest.mock("@libs/prisma", () => {
+  const matches = (token: StoredToken, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => token[key as keyof StoredToken] === value);
+
+  const refreshToken = {
+    findUnique: jest.fn(async ({ where }) =>
+      mockDb.tokens.find((token) => token.tokenHash === where.tokenHash) ?? null
+    ),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const hits = mockDb.tokens.filter((token) => matches(token, where));
+      hits.forEach((token) => Object.assign(token, data));
+      return { count: hits.length };
+    }),
+    create: jest.fn(async ({ data }) => {
+      if (mockDb.failInserts) throw new Error("insert failed");
+      if (mockDb.tokens.some((token) => token.tokenHash === data.tokenHash)) {
+        throw new Error("Unique constraint failed on tokenHash");
+      }
+      const token: StoredToken = {
+        id: mockDb.nextId++,
+        sessionId: data.sessionId ?? `session-${mockDb.nextId}`,
+        sessionStartedAt: data.sessionStartedAt ?? new Date(),
+        rotatedAt: null,
+        ...data,
+      };
+      mockDb.tokens.push(token);
+      return token;
+    }),
+    deleteMany: jest.fn(async ({ where }) => {
+      const before = mockDb.tokens.length;
+      mockDb.tokens = mockDb.tokens.filter((token) => !matches(token, where));
+      return { count: before - mockDb.tokens.length };
+    }),
+    delete: jest.fn(async ({ where }) => {
+      mockDb.tokens = mockDb.tokens.filter((token) => token.id !== where.id);
+    }),
+  };
+
+  const client: Record<string, unknown> = {
+    refreshToken,
+    securityEvent: {
+      create: jest.fn(async ({ data }) => {
+        mockDb.securityEvents.push(data);
+        return { id: mockDb.securityEvents.length, createdAt: new Date(), ...data };
+      }),
+    },
+    user: {
+      findUnique: jest.fn(async () => ({
+        id: 1,
+        email: "reader@example.com",
+        tokenVersion: 0,
+        suspendedAt: null,
+        suspendedUntil: null,
+        role: { id: 4, name: "user", priority: 150 },
+      })),
+    },
+    // Interactive transactions roll the table back when the callback throws
+    $transaction: jest.fn(async (work: unknown): Promise<unknown> => {
+      if (Array.isArray(work)) return Promise.all(work);
+      if (typeof work !== "function") throw new Error("Unsupported transaction");
+      const snapshot = mockDb.tokens.map((token) => ({ ...token }));
+      try {
+        return await work(client);
+      } catch (error) {
+        mockDb.tokens = snapshot;
+        throw error;
+      }
+    }),
+  };
+  return { prisma: client };
+});
+
+jest.mock("../src/services/countryService", () => ({
+  reevaluateUserCountry: jest.fn(async () => undefined),
+}));
+jest.mock("../src/services/mailerService", () => ({
+  queueEmailSafely: jest.fn(async () => undefined),
+  queueUserEmail: jest.fn(),
+}));
+jest.mock("../src/services/notificationService", () => ({
+  notifySafely: jest.fn(async () => undefined),
+  notifyUser: jest.fn(),
+}));
+
+const app = express();
+app.use(express.json());
+app.use(cookieParser());
+app.use("/auth", authRoutes);
+app.use(errorMiddleware);
+
+const refresh = (token: string) =>
+  request(app).post("/auth/refresh").set("Cookie", `refreshToken=${token}`);
+
+const cookieToken = (res: request.Response): string => {
+  const cookies = ([] as string[]).concat(res.headers["set-cookie"] ?? []);
+  const cookie = cookies.find((value) => value.startsWith("refreshToken="));
+  return cookie ? cookie.split(";")[0].slice("refreshToken=".length) : "";
+};
+
+const signIn = async (): Promise<string> => {
+  const token = generateRefreshToken(1);
+  await storeRefreshToken(1, token, {
+    sessionId: "session-a",
+    deviceLabel: "Firefox on Linux",
+    userAgent: null,
+    country: null,
+  });
+  return token;
+};
+
+beforeAll(() => {
+  process.env.JWT_ACCESS_SECRET = "test-access-secret";
+  process.env.JWT_REFRESH_SECRET = "test-refresh-secret";
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  mockDb.tokens = [];
+  mockDb.nextId = 1;
+  mockDb.failInserts = false;
+  mockDb.securityEvents = [];
+});
+
+describe("POST /auth/refresh", () => {
+  it("rotates the token within the same session", async () => {
+    const token = await signIn();
+
+    const res = await refresh(token);
+
+    expect(res.status).toBe(200);
+    expect(res.body.accessToken).toEqual(expect.any(String));
+    const next = cookieToken(res);
+    expect(next).not.toBe("");
+    expect(next).not.toBe(token);
+    expect(mockDb.tokens).toHaveLength(2);
+    expect(mockDb.tokens[0].rotatedAt).toBeInstanceOf(Date);
+    expect(mockDb.tokens[1]).toMatchObject({ sessionId: "session-a", rotatedAt: null });
+  });
+
+  it("issues distinct tokens for refreshes within the same second", async () => {
+    const first = cookieToken(await refresh(await signIn()));
+    const second = await refresh(first);
+
+    expect(second.status).toBe(200);
+    expect(cookieToken(second)).not.toBe(first);
+    expect(mockDb.tokens.filter((token) => !token.rotatedAt)).toHaveLength(1);
+  });
+
+  it("revokes the session when a rotated token is replayed", async () => {
+    const token = await signIn();
+    await refresh(token);
+
+    const res = await refresh(token);
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.appCode).toBe(ErrorAppCode.RefreshTokenReused);
+    expect(mockDb.tokens).toHaveLength(0);
+    expect(mockDb.securityEvents).toEqual([
+      expect.objectContaining({ userId: 1, sessionId: "session-a", type: "REFRESH_TOKEN_REUSE" }),
+    ]);
+  });
+
+  it("leaves the old token usable when storing the new one fails", async () => {
+    const token = await signIn();
+
+    mockDb.failInserts = true;
+    expect((await refresh(token)).status).toBe(500);
+    expect(mockDb.tokens[0].rotatedAt).toBeNull();
+
+    mockDb.failInserts = false;
+    expect((await refresh(token)).status).toBe(200);
+  });
+});